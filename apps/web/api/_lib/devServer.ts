@@ -0,0 +1,101 @@
+// apps/web/api/_lib/devServer.ts
+// ====== 開発用 API（vite dev の中で api/**/*.ts を動かす） ======
+// 本番は Vercel の関数として動く handler を、npm run dev のときは Vite のミドルウェアから呼ぶ。
+// handler は Vite の ssrLoadModule で読むので、TypeScript のままで良く、保存すればそのまま反映される。
+//
+//   /api/ai/receipt   → api/ai/receipt.ts の default export
+//   /api/foo          → api/foo.ts または api/foo/index.ts
+//
+// "_" で始まるファイル・ディレクトリ（このファイルなど）は Vercel と同じく関数として公開しない。
+import fs from "node:fs";
+import path from "node:path";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import express from "express";
+import bodyParser from "body-parser";
+import type { Plugin, ViteDevServer } from "vite";
+
+/** 画像の data URL を受け取るので大きめにする（Vercel の上限は 4.5MB だが手元では余裕を持たせる） */
+export const DEV_BODY_LIMIT = "25mb";
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => unknown;
+
+// ====== Vercel 互換のアダプタ ======
+// VercelRequest は body / query / cookies、VercelResponse は status / json / send を持つ。
+// express の req・res はほぼ同じ形なので、足りない cookies だけ補う。
+function parseCookies(header: string | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const part of (header ?? "").split(";")) {
+    const i = part.indexOf("=");
+    if (i < 0) continue;
+    const key = part.slice(0, i).trim();
+    if (!key) continue;
+    try {
+      out[key] = decodeURIComponent(part.slice(i + 1).trim());
+    } catch {
+      out[key] = part.slice(i + 1).trim();
+    }
+  }
+  return out;
+}
+
+function toVercelRequest(req: express.Request) {
+  // express 5 の req.query は getter だけなので、代入ではなく定義し直す
+  Object.defineProperty(req, "query", { value: { ...req.query }, writable: true, configurable: true });
+  return Object.assign(req, {
+    cookies: parseCookies(req.headers.cookie),
+    body: req.body ?? {},
+  });
+}
+
+/** URL のパスから handler のファイルを探す。見つからなければ null */
+function resolveHandler(apiDir: string, urlPath: string): string | null {
+  const segments = urlPath.split("/").filter(Boolean);
+  if (!segments.length || segments.some((s) => s.startsWith("_") || s.startsWith("."))) return null;
+  const base = path.join(apiDir, ...segments);
+  for (const file of [`${base}.ts`, path.join(base, "index.ts")]) {
+    if (fs.existsSync(file)) return file;
+  }
+  return null;
+}
+
+export function createDevApi(server: ViteDevServer, apiDir: string) {
+  const app = express();
+  app.use(bodyParser.json({ limit: DEV_BODY_LIMIT }));
+  app.use(bodyParser.urlencoded({ extended: true, limit: DEV_BODY_LIMIT }));
+
+  app.use(async (req, res) => {
+    const file = resolveHandler(apiDir, req.path);
+    if (!file) {
+      res.status(404).json({ error: `No API route for ${req.originalUrl}` });
+      return;
+    }
+    try {
+      const mod = await server.ssrLoadModule(file);
+      const handler = mod.default as Handler | undefined;
+      if (typeof handler !== "function") throw new Error(`${path.relative(apiDir, file)} has no default export`);
+      await handler(toVercelRequest(req), res);
+    } catch (e: any) {
+      if (e instanceof Error) server.ssrFixStacktrace(e);
+      console.error(`[api] ${req.method} ${req.originalUrl}:`, e);
+      if (!res.headersSent) res.status(500).json({ error: e?.message || "Internal Server Error" });
+    }
+  });
+
+  // body-parser のエラー（サイズ超過・JSON の書式）も JSON で返す
+  app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    res.status(err?.status || 400).json({ error: err?.message || "Bad Request" });
+  });
+
+  return app;
+}
+
+/** vite dev のときだけ /api を handler に回すプラグイン */
+export function vercelDevApi(apiDir: string): Plugin {
+  return {
+    name: "kakeibo:vercel-dev-api",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use("/api", createDevApi(server, apiDir));
+    },
+  };
+}
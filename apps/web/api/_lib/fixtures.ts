@@ -0,0 +1,60 @@
+// apps/web/api/_lib/fixtures.ts
+// ====== mock プロバイダの応答 ======
+// LLM_PROVIDER=mock のときに返す固定データ。各ルートがモデルに求める JSON と同じ形にする。
+// context には各ルートが LlmRequest.context に入れた値が入る（入力の id を返すため）。
+
+type Fixture = (context: unknown) => unknown;
+
+export const MOCK_FIXTURES: Record<string, Fixture> = {
+  // /api/ai/receipt: 外税・軽減税率・値引を含むレシート
+  receipt: () => ({
+    receipt: {
+      storeName: "モックマート 渋谷店",
+      date: "2025-01-15",
+      time: "18:42",
+      paymentMethod: "クレジット",
+      taxMode: "exclusive",
+      subtotal: 798,
+      tax8: 53,
+      tax10: 12,
+      discounts: [{ label: "値引", amount: 50, target: "牛乳" }],
+      total: 863,
+    },
+    items: [
+      { date: "2025-01-15", memo: "牛乳", amount: 248, taxRate: 8, category: "食費", payer: "" },
+      { date: "2025-01-15", memo: "食パン", amount: 178, taxRate: 8, category: "食費", payer: "" },
+      { date: "2025-01-15", memo: "卵 10個", amount: 298, taxRate: 8, category: "食費", payer: "" },
+      { date: "2025-01-15", memo: "ティッシュ", amount: 124, taxRate: 10, category: "日用品", payer: "" },
+    ],
+  }),
+
+  // /api/ai/analyze: ANALYSIS_JSON_SCHEMA の形
+  analyze: () => ({
+    summary: "（モック）食費が前3か月平均より増えていますが、全体では予算内に収まっています。",
+    insights: [
+      "食費は前3か月平均比 +15%（+¥6,000）です。",
+      "外食は前月比 -¥2,000 と減っています。",
+      "最も大きい支出は家賃で、支出全体の約40%です。",
+    ],
+    warnings: [],
+    actions: [
+      "週ごとの食費の上限を決めて買い物の回数を減らしましょう。",
+      "使っていないサブスクがないか見直しましょう。",
+      "まとめ買いは特売日に寄せましょう。",
+    ],
+  }),
+
+  // /api/ai/categorize: 入力の明細すべてにカテゴリ一覧の先頭を提案する
+  categorize: (context) => {
+    const { items = [], categories = [] } = (context ?? {}) as { items?: Array<{ id: string }>; categories?: string[] };
+    return {
+      results: items.map((it, i) => ({
+        id: it.id,
+        category: categories[0] ?? "その他",
+        // 承認・要確認の両方を試せるように交互にする
+        confidence: i % 2 === 0 ? 0.9 : 0.4,
+        reason: "モックの提案",
+      })),
+    };
+  },
+};
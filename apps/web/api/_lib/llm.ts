@@ -0,0 +1,139 @@
+// apps/web/api/_lib/llm.ts
+// ====== LLM プロバイダ（環境変数で切り替え） ======
+// api/ai/*.ts はここの complete() だけを呼ぶ。"_" で始まるディレクトリは Vercel の関数にならない。
+//
+//   LLM_PROVIDER        openai（既定）| mock
+//   LLM_BASE_URL        OpenAI 互換エンドポイント（例: LM Studio http://localhost:1234/v1 / Ollama http://localhost:11434/v1）
+//   LLM_API_KEY         未設定なら OPENAI_API_KEY。ローカルのサーバ向けには任意の文字列で良い
+//   LLM_MODEL_TEXT      文章タスクのモデル（既定 gpt-4o-mini）
+//   LLM_MODEL_VISION    画像タスクのモデル（既定 gpt-4o-mini）
+//   LLM_TIMEOUT_MS      タイムアウト（既定 60000）。LLM_TIMEOUT_MS_TEXT / LLM_TIMEOUT_MS_VISION で個別に上書き
+//   LLM_JSON_MODE       schema（既定）| object | none。JSON Schema 指定に未対応のモデル向け
+//
+// Responses API は互換サーバでの対応がまちまちなので、Chat Completions を使う。
+import OpenAI from "openai";
+import { MOCK_FIXTURES } from "./fixtures";
+
+export type LlmTask = "text" | "vision";
+
+export type LlmRequest = {
+  task: LlmTask;
+  fixture: string;                 // mock プロバイダが返すフィクスチャ名
+  system?: string;
+  prompt: string;
+  imageDataUrl?: string;           // vision のみ
+  schema?: { name: string; schema: Record<string, unknown> }; // 出力の JSON Schema（strict）
+  context?: unknown;               // mock のフィクスチャに渡す入力（id を合わせるなど）
+};
+
+export interface LlmProvider {
+  name: string;
+  complete(req: LlmRequest): Promise<string>;
+}
+
+/** 時間内に応答がなかった */
+export class LlmTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`LLM の応答が ${Math.round(ms / 1000)} 秒以内に返りませんでした`);
+    this.name = "LlmTimeoutError";
+  }
+}
+
+type JsonMode = "schema" | "object" | "none";
+
+const env = (key: string) => process.env[key]?.trim() || undefined;
+const envNumber = (key: string) => {
+  const n = Number(env(key));
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+export function llmConfig() {
+  const mode = env("LLM_JSON_MODE");
+  return {
+    provider: env("LLM_PROVIDER") === "mock" ? "mock" : "openai",
+    baseURL: env("LLM_BASE_URL"),
+    apiKey: env("LLM_API_KEY") ?? env("OPENAI_API_KEY"),
+    models: {
+      text: env("LLM_MODEL_TEXT") ?? "gpt-4o-mini",
+      vision: env("LLM_MODEL_VISION") ?? "gpt-4o-mini",
+    } satisfies Record<LlmTask, string>,
+    timeouts: {
+      text: envNumber("LLM_TIMEOUT_MS_TEXT") ?? envNumber("LLM_TIMEOUT_MS") ?? 60_000,
+      vision: envNumber("LLM_TIMEOUT_MS_VISION") ?? envNumber("LLM_TIMEOUT_MS") ?? 60_000,
+    } satisfies Record<LlmTask, number>,
+    jsonMode: (mode === "object" || mode === "none" ? mode : "schema") as JsonMode,
+  };
+}
+
+type LlmConfig = ReturnType<typeof llmConfig>;
+
+// ====== OpenAI 互換 ======
+function openaiProvider(cfg: LlmConfig): LlmProvider {
+  if (!cfg.apiKey && !cfg.baseURL) {
+    throw new Error("LLM_API_KEY（または OPENAI_API_KEY）か LLM_BASE_URL を設定してください");
+  }
+  // ローカルのサーバはキーを見ないが、SDK は空文字を受け付けない
+  const client = new OpenAI({ apiKey: cfg.apiKey ?? "local", baseURL: cfg.baseURL, maxRetries: 0 });
+
+  return {
+    name: cfg.baseURL ? `openai-compatible(${cfg.baseURL})` : "openai",
+    async complete(req) {
+      const timeout = cfg.timeouts[req.task];
+      const user: any[] = [{ type: "text", text: req.prompt }];
+      if (req.task === "vision" && req.imageDataUrl) {
+        user.push({ type: "image_url", image_url: { url: req.imageDataUrl } });
+      }
+      const response_format =
+        cfg.jsonMode === "none" ? undefined
+        : cfg.jsonMode === "object" || !req.schema ? { type: "json_object" as const }
+        : { type: "json_schema" as const, json_schema: { name: req.schema.name, schema: req.schema.schema, strict: true } };
+
+      try {
+        const r = await client.chat.completions.create(
+          {
+            model: cfg.models[req.task],
+            messages: [
+              ...(req.system ? [{ role: "system" as const, content: req.system }] : []),
+              { role: "user" as const, content: user },
+            ],
+            ...(response_format ? { response_format } : {}),
+          },
+          { timeout }
+        );
+        return r.choices?.[0]?.message?.content ?? "";
+      } catch (e) {
+        if (e instanceof OpenAI.APIConnectionTimeoutError) throw new LlmTimeoutError(timeout);
+        throw e;
+      }
+    },
+  };
+}
+
+// ====== モック（オフライン・開発用） ======
+// 同じ入力には常に同じ応答を返す。フィクスチャは ./fixtures.ts
+function mockProvider(): LlmProvider {
+  return {
+    name: "mock",
+    async complete(req) {
+      const fixture = MOCK_FIXTURES[req.fixture];
+      if (!fixture) throw new Error(`mock: フィクスチャ "${req.fixture}" がありません`);
+      return JSON.stringify(fixture(req.context));
+    },
+  };
+}
+
+let cached: { key: string; provider: LlmProvider } | null = null;
+
+/** 環境変数からプロバイダを作る（設定が変わらない限り使い回す） */
+export function getProvider(): LlmProvider {
+  const cfg = llmConfig();
+  const key = JSON.stringify(cfg);
+  if (cached?.key !== key) {
+    cached = { key, provider: cfg.provider === "mock" ? mockProvider() : openaiProvider(cfg) };
+  }
+  return cached.provider;
+}
+
+export function complete(req: LlmRequest): Promise<string> {
+  return getProvider().complete(req);
+}
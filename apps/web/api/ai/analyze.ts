@@ -1,78 +1,85 @@
 // apps/web/api/ai/analyze.ts
-import OpenAI from "openai";
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  ANALYSIS_JSON_SCHEMA,
+  type AiErrorBody,
+  type AnalysisResult,
+  parseAnalysis,
+} from "../../src/lib/aiSchema";
+import {
+  type AnalyzeRequest,
+  PREVIOUS_MONTHS,
+  TOP_ITEMS,
+  analysisMonths,
+  buildAggregates,
+  isMonth,
+} from "../../src/lib/analysisPayload";
+import { LlmTimeoutError, complete } from "../_lib/llm";
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+// 出力が形式に合わないときの再試行回数
+const MAX_RETRIES = 1;
 
-function extractOutputText(r: any): string {
-  return (
-    r?.output_text ??
-    r?.output?.[0]?.content?.[0]?.text ??
-    r?.choices?.[0]?.message?.content ??
-    ""
-  );
-}
+const fail = (res: VercelResponse, status: number, body: AiErrorBody) => res.status(status).json(body);
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== "POST") return res.status(405).send("Method Not Allowed");
 
   try {
-    const { month, txns } = (req.body || {}) as {
-      month?: string; // "YYYY-MM"
-      txns?: Array<{
-        date: string;
-        memo: string;
-        category: string;
-        amount: number;
-        kind: "expense" | "income";
-      }>;
-    };
+    const { month, txns, budgets, totalBudget } = (req.body || {}) as Partial<AnalyzeRequest>;
 
-    if (!month || !Array.isArray(txns)) {
-      return res.status(400).json({ error: "month and txns are required" });
+    if (!isMonth(month) || !Array.isArray(txns)) {
+      return fail(res, 400, { error: "month (YYYY-MM) and txns are required", code: "bad_request" });
     }
 
+    // 古いクライアントは全期間を送ってくるので、対象月と前月分だけに絞ってから集計する
+    const months = analysisMonths(month);
+    const inWindow = txns.filter((t) => typeof t?.date === "string" && months.includes(t.date.slice(0, 7)));
+    const aggregates = buildAggregates({ month, txns: inWindow, budgets, totalBudget });
+
     const sys =
       "あなたは家計アナリストです。日本語で簡潔に、数値根拠を伴うアドバイスを出してください。";
 
     const prompt =
       `対象月: ${month}\n` +
-      `トランザクション件数: ${txns.length}\n` +
-      `フォーマット（JSONのみ。説明文禁止）:\n` +
-      `{"summary":"string","insights":["string",...],"warnings":["string",...],"actions":["string",...]}\n` +
+      `比較対象: 前${PREVIOUS_MONTHS}か月（${months.slice(1).join(", ")}）\n` +
       `条件:\n` +
-      `- JSON以外のテキストは出力しない\n` +
       `- 金額は円整数\n` +
+      `- 分析するのは対象月。前月までの数値は比較のためだけに使う\n` +
+      `- 増減を述べるときは前月比・前${PREVIOUS_MONTHS}か月平均比を金額や割合で示す（categoryChanges を参照）\n` +
+      `- budget に over があれば warnings で触れる\n` +
+      `- byTag は旅行・引っ越しなど、カテゴリをまたぐ出費のまとまり。一時的な出費が大きいときは、それを除いた普段の支出とも比べる\n` +
       `- insightsは3〜5個、actionsは実行可能な提案を3〜5個\n` +
-      `- warningsは必要な時のみ\n` +
+      `- warningsは必要な時のみ（なければ空配列）\n` +
       `---\n` +
-      `データ例:\n` +
-      `${JSON.stringify(txns.slice(0, 200))}`;
+      `集計データ（target: 対象月、previous: 前月から新しい順、topItems: 対象月の大きい支出上位${TOP_ITEMS}件）:\n` +
+      `${JSON.stringify(aggregates)}`;
 
-    const r = await openai.responses.create({
-      model: "gpt-4o-mini",
-      input: [
-        { role: "system", content: [{ type: "input_text", text: sys }] },
-        { role: "user", content: [{ type: "input_text", text: prompt }] },
-      ],
-    });
-
-    const out = extractOutputText(r);
-    let parsed: any;
-    try {
-      parsed = JSON.parse(String(out).trim());
-    } catch {
-      parsed = {
-        summary: "AI出力の解析に失敗しました。",
-        insights: [],
-        warnings: [],
-        actions: [],
-      };
+    let result: AnalysisResult | null = null;
+    let errors: string[] = [];
+    for (let attempt = 0; attempt <= MAX_RETRIES && !result; attempt++) {
+      // 再試行では前回の不備を伝える
+      const retryNote = attempt > 0 ? `\n---\n前回の出力は形式に合いませんでした: ${errors.join(" / ")}` : "";
+      const out = await complete({
+        task: "text",
+        fixture: "analyze",
+        system: sys,
+        prompt: prompt + retryNote,
+        schema: { name: "household_analysis", schema: ANALYSIS_JSON_SCHEMA },
+        context: aggregates,
+      });
+      const parsed = parseAnalysis(out);
+      result = parsed.value;
+      errors = parsed.errors;
+      if (!result) console.warn(`analyze: invalid output (attempt ${attempt + 1}):`, errors);
     }
 
-    res.status(200).json(parsed);
+    if (!result) {
+      return fail(res, 502, { error: "AIの出力が分析結果の形式に合いませんでした", code: "invalid_output", details: errors });
+    }
+    res.status(200).json(result);
   } catch (e: any) {
     console.error("analyze error:", e);
-    res.status(500).json({ error: e?.message || "OpenAI error" });
+    if (e instanceof LlmTimeoutError) return fail(res, 504, { error: e.message, code: "timeout" });
+    fail(res, 502, { error: e?.message || "LLM error", code: "upstream" });
   }
 }
@@ -0,0 +1,99 @@
+// apps/web/api/ai/categorize.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  CATEGORIZE_JSON_SCHEMA,
+  type AiErrorBody,
+  type CategorizeResult,
+  parseCategorize,
+} from "../../src/lib/aiSchema";
+import { LlmTimeoutError, complete } from "../_lib/llm";
+
+// 1 回に受け付ける明細数（プロンプトが長くなりすぎないように）
+const MAX_ITEMS = 100;
+
+// 出力が形式に合わないときの再試行回数
+const MAX_RETRIES = 1;
+
+const fail = (res: VercelResponse, status: number, body: AiErrorBody) => res.status(status).json(body);
+
+type Item = {
+  id: string;
+  date?: string;
+  memo: string;
+  amount: number;
+  store?: string;
+  category?: string; // 現在のカテゴリ（空 / その他）
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") return res.status(405).send("Method Not Allowed");
+
+  try {
+    const { items, categories } = (req.body || {}) as { items?: Item[]; categories?: string[] };
+    if (!Array.isArray(items) || !Array.isArray(categories) || !categories.length) {
+      return fail(res, 400, { error: "items and categories are required", code: "bad_request" });
+    }
+    if (items.length > MAX_ITEMS) {
+      return fail(res, 400, { error: `items must be ${MAX_ITEMS} or fewer`, code: "bad_request" });
+    }
+
+    const categoryList = categories.map((c) => String(c).trim()).filter(Boolean);
+    const input = items
+      .filter((it) => it && it.id && String(it.memo || "").trim())
+      .map((it) => ({
+        id: String(it.id),
+        memo: String(it.memo).slice(0, 100),
+        amount: Number(it.amount) || 0,
+        ...(it.store ? { store: String(it.store).slice(0, 50) } : {}),
+      }));
+    if (!input.length) return res.status(200).json({ suggestions: [] });
+
+    const prompt =
+      `カテゴリ一覧: ${JSON.stringify(categoryList)}\n` +
+      `次の家計簿の明細それぞれに、カテゴリ一覧から最も適切なものを1つ選んでください。\n` +
+      `フォーマット（JSONのみ。説明文禁止）:\n` +
+      `{"results":[{"id":"string","category":"string","confidence":0.0,"reason":"string"}]}\n` +
+      `条件:\n` +
+      `- category は必ずカテゴリ一覧の中から選ぶ\n` +
+      `- confidence はその分類の確からしさ（0〜1）。メモだけでは判断できないものは低くする\n` +
+      `- reason は20文字程度の日本語\n` +
+      `---\n` +
+      `${JSON.stringify(input)}`;
+
+    let result: CategorizeResult | null = null;
+    let errors: string[] = [];
+    for (let attempt = 0; attempt <= MAX_RETRIES && !result; attempt++) {
+      // 再試行では前回の不備を伝える
+      const retryNote = attempt > 0 ? `\n---\n前回の出力は形式に合いませんでした: ${errors.join(" / ")}` : "";
+      const out = await complete({
+        task: "text",
+        fixture: "categorize",
+        system: "あなたは日本の家計簿の分類アシスタントです。",
+        prompt: prompt + retryNote,
+        schema: { name: "category_suggestions", schema: CATEGORIZE_JSON_SCHEMA },
+        context: { items: input, categories: categoryList },
+      });
+      const parsed = parseCategorize(out);
+      result = parsed.value;
+      errors = parsed.errors;
+      if (!result) console.warn(`categorize: invalid output (attempt ${attempt + 1}):`, errors);
+    }
+
+    if (!result) {
+      return fail(res, 502, { error: "AIの出力がカテゴリ提案の形式に合いませんでした", code: "invalid_output", details: errors });
+    }
+
+    // 入力にない id・一覧にないカテゴリは捨てる
+    const ids = new Set(input.map((i) => i.id));
+    const allowed = new Set(categoryList);
+    const suggestions = result.results
+      .filter((x) => ids.has(x.id) && allowed.has(x.category))
+      .map((x) => ({ ...x, reason: x.reason.slice(0, 100) }));
+
+    res.status(200).json({ suggestions });
+  } catch (e: any) {
+    console.error("categorize error:", e);
+    if (e instanceof LlmTimeoutError) return fail(res, 504, { error: e.message, code: "timeout" });
+    fail(res, 502, { error: e?.message || "LLM error", code: "upstream" });
+  }
+}
@@ -1,48 +1,78 @@
 // apps/web/api/ai/receipt.ts
-import OpenAI from "openai";
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { LlmTimeoutError, complete } from "../_lib/llm";
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+const toYen = (v: any): number | null => {
+  if (v == null || v === "") return null;
+  const n = Number(String(v).replace(/[^\d.-]/g, ""));
+  return Number.isFinite(n) ? Math.round(n) : null;
+};
 
-// OpenAIのレスポンスからテキストを取り出す汎用ヘルパ
-function extractOutputText(r: any): string {
-  return (
-    r?.output_text ??
-    r?.output?.[0]?.content?.[0]?.text ??
-    r?.choices?.[0]?.message?.content ??
-    ""
-  );
+// レシートのヘッダ・集計欄（店名・日時・支払方法・税の表示・小計・税・値引・合計）
+function normalizeReceipt(r: any) {
+  return {
+    storeName: String(r?.storeName ?? "").trim(),
+    date: typeof r?.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(r.date) ? r.date : "",
+    time: typeof r?.time === "string" && /^\d{1,2}:\d{2}$/.test(r.time) ? r.time : "",
+    paymentMethod: String(r?.paymentMethod ?? "").trim(),
+    taxMode: r?.taxMode === "exclusive" ? "exclusive" : "inclusive",
+    subtotal: toYen(r?.subtotal),
+    tax8: toYen(r?.tax8),
+    tax10: toYen(r?.tax10),
+    discounts: (Array.isArray(r?.discounts) ? r.discounts : [])
+      .map((d: any) => ({
+        label: String(d?.label || "値引"),
+        amount: Math.abs(toYen(d?.amount) ?? 0),
+        target: String(d?.target || "").trim(),
+      }))
+      .filter((d: any) => d.amount > 0),
+    total: toYen(r?.total),
+  };
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== "POST") return res.status(405).send("Method Not Allowed");
 
   try {
-    const { imageDataUrl } = (req.body || {}) as { imageDataUrl?: string };
+    const { imageDataUrl, payers, tags } = (req.body || {}) as {
+      imageDataUrl?: string;
+      payers?: string[]; // 世帯メンバー名（"共同" を含む）
+      tags?: string[];   // 家計簿で使っているタグ（よく使う順）
+    };
     if (!imageDataUrl) return res.status(400).json({ error: "imageDataUrl is required" });
 
-    const r = await openai.responses.create({
-      model: "gpt-4o-mini",
-      instructions:
-        "日本のレシート画像から商品行のみを抽出してください。割引・税・合計は除外。金額は円の整数。",
-      input: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "input_text",
-              text:
-                "以下の画像から明細を抽出し、**JSONだけ** を返してください（説明文禁止）。\n" +
-                "形式: {\"items\":[{\"date\":\"YYYY-MM-DD(可能なら)\",\"memo\":\"string\",\"amount\":1234,\"category\":\"string(任意)\",\"payer\":\"string(任意)\"}]}\n" +
-                "dateが不明なら空で良いです。",
-            },
-            { type: "input_image", image_url: imageDataUrl },
-          ],
-        },
-      ],
-    });
+    const payerList = Array.isArray(payers)
+      ? payers.map((p) => String(p).trim()).filter(Boolean)
+      : [];
+    const payerHint = payerList.length
+      ? `payerは次のいずれか（レシートから判断できなければ空）: ${payerList.join(" / ")}\n`
+      : "";
+    // タグは新しく作らせず、使っているものから選ばせる（多すぎるとプロンプトが長くなるので上位だけ）
+    const tagList = Array.isArray(tags)
+      ? Array.from(new Set(tags.map((t) => String(t).trim()).filter(Boolean))).slice(0, 50)
+      : [];
+    const tagHint = tagList.length
+      ? `tagsは次の中から当てはまるものだけ（店名や商品から判断できなければ空配列）: ${tagList.join(" / ")}\n`
+      : "";
 
-    const out = extractOutputText(r);
+    const out = await complete({
+      task: "vision",
+      fixture: "receipt",
+      system:
+        "日本のレシート画像から明細を抽出してください。商品行は items に入れ、割引・税・合計は items に含めず receipt の各欄に入れてください。商品の金額はレシートに印字された価格（値引前・外税なら税抜）のまま、円の整数で。",
+      prompt:
+        "以下の画像から明細を抽出し、**JSONだけ** を返してください（説明文禁止）。\n" +
+        "形式: {\"receipt\":{\"storeName\":\"string\",\"date\":\"YYYY-MM-DD\",\"time\":\"HH:MM\",\"paymentMethod\":\"現金|クレジット|電子マネー|QR|その他\",\"taxMode\":\"inclusive|exclusive\",\"subtotal\":1234,\"tax8\":12,\"tax10\":34,\"discounts\":[{\"label\":\"string\",\"amount\":100,\"target\":\"string\"}],\"total\":1234}," +
+        "\"items\":[{\"date\":\"YYYY-MM-DD(可能なら)\",\"memo\":\"string\",\"amount\":1234,\"taxRate\":8,\"category\":\"string(任意)\",\"payer\":\"string(任意)\",\"tags\":[\"string\"]}]}\n" +
+        "taxModeは商品価格が税込（内税）なら inclusive、税抜で最後に消費税を足す（外税）なら exclusive。\n" +
+        "taxRateは軽減税率の印（※ * 軽 など）がある商品は8、それ以外は10。\n" +
+        "discountsの金額は正の値。特定の商品への値引（商品の直下の割引行など）は target にその商品の memo を、小計への値引やクーポンは target を空にしてください。\n" +
+        "tax8/tax10は税率ごとの消費税額、totalは支払合計。読めない欄はnullまたは空で良いです。\n" +
+        "dateが不明なら空で良いです。\n" +
+        payerHint +
+        tagHint,
+      imageDataUrl,
+    });
     let parsed: any;
     try {
       parsed = JSON.parse(String(out).trim());
@@ -51,6 +81,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     const today = new Date().toISOString().slice(0, 10);
+    const receipt = normalizeReceipt(parsed.receipt);
     const items = (parsed.items || [])
       .map((it: any) => {
         const memo = String(it?.memo || "").trim();
@@ -59,21 +90,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         const date =
           typeof it?.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(it.date)
             ? it.date
-            : today;
+            : receipt.date || today;
+        const payer = String(it?.payer || "").trim();
+        const taxRate = Number(it?.taxRate);
+        const itemTags = (Array.isArray(it?.tags) ? it.tags : [])
+          .map((t: any) => String(t).trim())
+          .filter((t: string) => tagList.includes(t));
         return {
           date,
           memo,
           amount,
           category: String(it?.category || ""),
-          payer: String(it?.payer || ""),
+          // 候補外の名前はクライアント側の既定支払者に任せる
+          payer: payerList.length && !payerList.includes(payer) ? "" : payer,
           kind: "expense" as const,
+          taxRate: taxRate === 8 || taxRate === 10 ? taxRate : null,
+          // 候補外のタグは捨てる（候補がなければ付けない）
+          tags: Array.from(new Set(itemTags)),
         };
       })
       .filter(Boolean);
 
-    res.status(200).json({ items, raw: out });
+    res.status(200).json({ items, receipt, raw: out });
   } catch (e: any) {
     console.error("receipt error:", e);
-    res.status(500).json({ error: e?.message || "OpenAI error" });
+    res.status(e instanceof LlmTimeoutError ? 504 : 500).json({ error: e?.message || "LLM error" });
   }
 }
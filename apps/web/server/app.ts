@@ -0,0 +1,310 @@
+// apps/web/server/app.ts
+// ====== 同期サーバ（REST API v1） ======
+// API の一覧と型は src/lib/syncProtocol.ts。世帯ごとにトークンを発行し、ハッシュだけを保存する。
+import crypto from "node:crypto";
+import express from "express";
+import bodyParser from "body-parser";
+import type { Db } from "./db";
+import type { Txn } from "../src/lib/types";
+import type { Household } from "../src/lib/household";
+import {
+  API_PREFIX,
+  type ApiErrorBody,
+  type CreateHouseholdRequest,
+  type CreateHouseholdResponse,
+  type HouseholdBudgets,
+  type HouseholdSnapshot,
+  MAX_BATCH,
+  type ChangesResponse,
+  type PushChange,
+  type PushResponse,
+  type PushResult,
+  type SyncChange,
+  type TxnBatch,
+  validateBudgets,
+  validateCategories,
+  validateHousehold,
+  validatePushChange,
+  validateTxn,
+} from "../src/lib/syncProtocol";
+
+export type AppOptions = {
+  corsOrigin: string;      // Access-Control-Allow-Origin（"*" で全許可）
+};
+
+type SettingKey = "categories" | "budgets";
+
+class HttpError extends Error {
+  status: number;
+  details: string[];
+  constructor(status: number, message: string, details: string[] = []) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+const now = () => new Date().toISOString();
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+function check(errors: string[], message: string) {
+  if (errors.length) throw new HttpError(400, message, errors.slice(0, 20));
+}
+
+// ====== リポジトリ ======
+type TxnRow = { id: string; rev: number; deleted: number; modified_at: string | null; updated_at: string; data: string };
+
+const toChange = (r: TxnRow): SyncChange => ({
+  id: r.id,
+  rev: r.rev,
+  deleted: !!r.deleted,
+  modifiedAt: r.modified_at ?? r.updated_at,
+  txn: r.deleted ? null : { ...JSON.parse(r.data), rev: r.rev, modifiedAt: r.modified_at ?? r.updated_at },
+});
+
+function createStore(db: Db) {
+  const stmt = {
+    insertHousehold: db.prepare("INSERT INTO households (id, data, token_hash, created_at, updated_at) VALUES (?, ?, ?, ?, ?)"),
+    getHousehold: db.prepare("SELECT data, token_hash, rev FROM households WHERE id = ?"),
+    updateHousehold: db.prepare("UPDATE households SET data = ?, updated_at = ? WHERE id = ?"),
+    nextRev: db.prepare("UPDATE households SET rev = rev + 1 WHERE id = ? RETURNING rev"),
+    listTxns: db.prepare(
+      "SELECT * FROM txns WHERE household_id = ? AND deleted = 0 AND date BETWEEN ? AND ? ORDER BY date DESC, id"
+    ),
+    getTxn: db.prepare("SELECT * FROM txns WHERE household_id = ? AND id = ?"),
+    changes: db.prepare("SELECT * FROM txns WHERE household_id = ? AND rev > ? ORDER BY rev LIMIT ?"),
+    upsertTxn: db.prepare(`
+      INSERT INTO txns (household_id, id, date, category, payer, data, rev, deleted, modified_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?)
+      ON CONFLICT (household_id, id) DO UPDATE SET date = excluded.date, category = excluded.category,
+        payer = excluded.payer, data = excluded.data, rev = excluded.rev, deleted = 0,
+        modified_at = excluded.modified_at, updated_at = excluded.updated_at
+    `),
+    // 行は消さずに tombstone として残す（他の端末が削除を受け取れるように）
+    tombstone: db.prepare(
+      "UPDATE txns SET deleted = 1, data = 'null', rev = ?, modified_at = ?, updated_at = ? WHERE household_id = ? AND id = ? AND deleted = 0"
+    ),
+    getSetting: db.prepare("SELECT data FROM settings WHERE household_id = ? AND key = ?"),
+    putSetting: db.prepare(`
+      INSERT INTO settings (household_id, key, data, updated_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (household_id, key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `),
+  };
+
+  const nextRev = (hid: string) => (stmt.nextRev.get(hid) as { rev: number }).rev;
+
+  const putTxn = (hid: string, t: Txn, modifiedAt = now()): number => {
+    const rev = nextRev(hid);
+    const { rev: _rev, modifiedAt: _modifiedAt, ...data } = t;
+    stmt.upsertTxn.run(hid, t.id, t.date, t.category, t.payer, JSON.stringify(data), rev, modifiedAt, now());
+    return rev;
+  };
+
+  const deleteTxn = (hid: string, id: string, modifiedAt = now()): number | null => {
+    const cur = stmt.getTxn.get(hid, id) as TxnRow | undefined;
+    if (!cur || cur.deleted) return null;
+    const rev = nextRev(hid);
+    stmt.tombstone.run(rev, modifiedAt, now(), hid, id);
+    return rev;
+  };
+
+  return {
+    createHousehold(h: Household, token: string): string {
+      const id = `h_${crypto.randomBytes(9).toString("base64url")}`;
+      stmt.insertHousehold.run(id, JSON.stringify(h), hashToken(token), now(), now());
+      return id;
+    },
+    authorize(hid: string, token: string): boolean {
+      const row = stmt.getHousehold.get(hid) as { token_hash: string } | undefined;
+      if (!row) return false;
+      const a = Buffer.from(row.token_hash, "hex");
+      const b = Buffer.from(hashToken(token), "hex");
+      return a.length === b.length && crypto.timingSafeEqual(a, b);
+    },
+    household(hid: string): Household {
+      const row = stmt.getHousehold.get(hid) as { data: string } | undefined;
+      if (!row) throw new HttpError(404, "世帯が見つかりません");
+      return JSON.parse(row.data);
+    },
+    cursor(hid: string): number {
+      return (stmt.getHousehold.get(hid) as { rev: number } | undefined)?.rev ?? 0;
+    },
+    updateHousehold(hid: string, h: Household) {
+      stmt.updateHousehold.run(JSON.stringify(h), now(), hid);
+    },
+    txns(hid: string, from = "0000-00-00", to = "9999-99-99"): Txn[] {
+      return (stmt.listTxns.all(hid, from, to) as TxnRow[]).map((r) => toChange(r).txn!);
+    },
+    putTxn,
+    deleteTxn,
+    batch: db.transaction((hid: string, b: TxnBatch) => {
+      for (const t of b.put) putTxn(hid, t);
+      for (const id of b.remove) deleteTxn(hid, id);
+    }),
+    changes(hid: string, since: number, limit: number): SyncChange[] {
+      return (stmt.changes.all(hid, since, limit) as TxnRow[]).map(toChange);
+    },
+    // baseRev がサーバの rev と一致するものだけ反映する（楽観的排他）。削除済みの行への削除は成功扱い
+    push: db.transaction((hid: string, changes: PushChange[]): PushResult[] =>
+      changes.map((c) => {
+        const cur = stmt.getTxn.get(hid, c.id) as TxnRow | undefined;
+        if (cur && cur.deleted && c.deleted) return { id: c.id, status: "applied", rev: cur.rev };
+        // サーバに行がなければ（作り直したサーバなど）新規として受け付ける。
+        // 削除済みの行を baseRev 0 で書くのは、ゴミ箱・元に戻すからの復元なので受け付ける
+        const restore = cur?.deleted && !c.deleted && c.baseRev === 0;
+        if (cur && !restore && cur.rev !== c.baseRev) return { id: c.id, status: "conflict", current: toChange(cur) };
+        const rev = c.deleted ? deleteTxn(hid, c.id, c.modifiedAt) ?? 0 : putTxn(hid, c.txn!, c.modifiedAt);
+        return { id: c.id, status: "applied", rev };
+      })
+    ),
+    setting<T>(hid: string, key: SettingKey): T | null {
+      const row = stmt.getSetting.get(hid, key) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : null;
+    },
+    putSetting(hid: string, key: SettingKey, value: unknown) {
+      stmt.putSetting.run(hid, key, JSON.stringify(value), now());
+    },
+  };
+}
+
+// ====== ルーティング ======
+export function createApp(db: Db, options: AppOptions) {
+  const store = createStore(db);
+  const app = express();
+
+  app.use((req, res, next) => {
+    res.setHeader("Access-Control-Allow-Origin", options.corsOrigin);
+    res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
+    if (req.method === "OPTIONS") {
+      res.status(204).end();
+      return;
+    }
+    next();
+  });
+  app.use(bodyParser.json({ limit: "10mb" }));
+
+  const api = express.Router();
+
+  api.get("/health", (_req, res) => {
+    res.json({ ok: true });
+  });
+
+  api.post("/households", (req, res) => {
+    const body = (req.body || {}) as Partial<CreateHouseholdRequest>;
+    check(validateHousehold(body.household), "世帯の形式が正しくありません");
+    if (body.categories !== undefined) check(validateCategories(body.categories), "カテゴリの形式が正しくありません");
+    if (body.budgets !== undefined) check(validateBudgets(body.budgets), "予算の形式が正しくありません");
+
+    const token = crypto.randomBytes(24).toString("base64url");
+    const householdId = store.createHousehold(body.household!, token);
+    if (body.categories) store.putSetting(householdId, "categories", body.categories);
+    if (body.budgets) store.putSetting(householdId, "budgets", body.budgets);
+    res.status(201).json({ householdId, token } satisfies CreateHouseholdResponse);
+  });
+
+  // :hid 以下はトークンが必要
+  const household = express.Router({ mergeParams: true });
+  household.use((req, _res, next) => {
+    const hid = (req.params as { hid: string }).hid;
+    const token = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "")?.[1] ?? "";
+    if (!token || !store.authorize(hid, token)) throw new HttpError(401, "認証に失敗しました");
+    next();
+  });
+  const hidOf = (req: express.Request) => (req.params as { hid: string }).hid;
+
+  household.get("/", (req, res) => {
+    const hid = hidOf(req);
+    // ?txns=0 なら明細を省く（設定だけ読み直したい端末向け）
+    const snapshot: HouseholdSnapshot = {
+      household: store.household(hid),
+      txns: req.query.txns === "0" ? [] : store.txns(hid),
+      cursor: store.cursor(hid),
+      categories: store.setting<string[]>(hid, "categories"),
+      budgets: store.setting<HouseholdBudgets>(hid, "budgets"),
+    };
+    res.json(snapshot);
+  });
+
+  household.put("/", (req, res) => {
+    check(validateHousehold(req.body), "世帯の形式が正しくありません");
+    store.updateHousehold(hidOf(req), req.body);
+    res.json(req.body);
+  });
+
+  household.get("/txns", (req, res) => {
+    const { from, to } = req.query as { from?: string; to?: string };
+    res.json(store.txns(hidOf(req), from || undefined, to || undefined));
+  });
+
+  household.put("/txns/:id", (req, res) => {
+    const t = req.body as Txn;
+    check(validateTxn(t), "明細の形式が正しくありません");
+    if (t.id !== req.params.id) throw new HttpError(400, "URL と本文の id が一致しません");
+    store.putTxn(hidOf(req), t);
+    res.json(t);
+  });
+
+  household.delete("/txns/:id", (req, res) => {
+    if (store.deleteTxn(hidOf(req), req.params.id) === null) throw new HttpError(404, "明細が見つかりません");
+    res.status(204).end();
+  });
+
+  household.post("/txns/batch", (req, res) => {
+    const b = (req.body || {}) as Partial<TxnBatch>;
+    if (!Array.isArray(b.put) || !Array.isArray(b.remove)) throw new HttpError(400, "put と remove は配列にしてください");
+    if (b.put.length + b.remove.length > MAX_BATCH) throw new HttpError(400, `1 回に送れるのは ${MAX_BATCH} 件までです`);
+    check(b.put.flatMap(validateTxn), "明細の形式が正しくありません");
+    if (!b.remove.every((id) => typeof id === "string")) throw new HttpError(400, "remove は id の配列にしてください");
+    store.batch(hidOf(req), b as TxnBatch);
+    res.json({ put: b.put.length, remove: b.remove.length });
+  });
+
+  household.get("/changes", (req, res) => {
+    const hid = hidOf(req);
+    const since = Math.max(0, Number(req.query.since) || 0);
+    const changes = store.changes(hid, since, MAX_BATCH + 1);
+    const more = changes.length > MAX_BATCH;
+    const page = changes.slice(0, MAX_BATCH);
+    const body: ChangesResponse = { changes: page, cursor: page.length ? page[page.length - 1].rev : since, more };
+    res.json(body);
+  });
+
+  household.post("/changes", (req, res) => {
+    const changes = (req.body || {}).changes as PushChange[] | undefined;
+    if (!Array.isArray(changes)) throw new HttpError(400, "changes は配列にしてください");
+    if (changes.length > MAX_BATCH) throw new HttpError(400, `1 回に送れるのは ${MAX_BATCH} 件までです`);
+    check(changes.flatMap(validatePushChange), "変更の形式が正しくありません");
+    const hid = hidOf(req);
+    const body: PushResponse = { results: store.push(hid, changes), cursor: store.cursor(hid) };
+    res.json(body);
+  });
+
+  for (const key of ["categories", "budgets"] as const) {
+    const validate = key === "categories" ? validateCategories : validateBudgets;
+    household.get(`/${key}`, (req, res) => {
+      res.json(store.setting(hidOf(req), key));
+    });
+    household.put(`/${key}`, (req, res) => {
+      check(validate(req.body), `${key} の形式が正しくありません`);
+      store.putSetting(hidOf(req), key, req.body);
+      res.json(req.body);
+    });
+  }
+
+  api.use("/households/:hid", household);
+  app.use(API_PREFIX, api);
+
+  app.use((_req, res) => {
+    res.status(404).json({ error: "Not Found" } satisfies ApiErrorBody);
+  });
+  app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    const status = err instanceof HttpError ? err.status : err?.status || 500;
+    if (status >= 500) console.error("sync server error:", err);
+    const body: ApiErrorBody = { error: err?.message || "Internal Server Error" };
+    if (err instanceof HttpError && err.details.length) body.details = err.details;
+    res.status(status).json(body);
+  });
+
+  return app;
+}
@@ -0,0 +1,80 @@
+// apps/web/server/db.ts
+// ====== 同期サーバの SQLite（スキーマとマイグレーション） ======
+// PRAGMA user_version をスキーマのバージョンとして使い、MIGRATIONS を上から順に未適用のものだけ実行する。
+// 明細の本体は JSON のまま data 列に入れ、検索に使う項目（日付・カテゴリ・支払者）だけを列に出す。
+// rev は世帯ごとの通し番号で、明細を書くたびに households.rev を 1 つ進めて振る。削除しても行は消さず deleted = 1 で残す。
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+export type Db = Database.Database;
+
+const MIGRATIONS: Array<{ version: number; description: string; sql: string }> = [
+  {
+    version: 1,
+    description: "世帯・明細・世帯ごとの設定",
+    sql: `
+      CREATE TABLE households (
+        id          TEXT PRIMARY KEY,
+        data        TEXT NOT NULL,          -- Household（members, defaultPayer）
+        token_hash  TEXT NOT NULL,
+        created_at  TEXT NOT NULL,
+        updated_at  TEXT NOT NULL
+      );
+      CREATE TABLE txns (
+        household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+        id           TEXT NOT NULL,
+        date         TEXT NOT NULL,
+        category     TEXT NOT NULL,
+        payer        TEXT NOT NULL,
+        data         TEXT NOT NULL,         -- Txn
+        updated_at   TEXT NOT NULL,
+        PRIMARY KEY (household_id, id)
+      );
+      CREATE INDEX txns_date ON txns (household_id, date);
+      CREATE INDEX txns_category ON txns (household_id, category);
+      CREATE INDEX txns_payer ON txns (household_id, payer);
+      CREATE TABLE settings (
+        household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+        key          TEXT NOT NULL,         -- categories / budgets
+        data         TEXT NOT NULL,
+        updated_at   TEXT NOT NULL,
+        PRIMARY KEY (household_id, key)
+      );
+    `,
+  },
+  {
+    version: 2,
+    description: "明細のリビジョンと削除の記録（同期用）",
+    sql: `
+      ALTER TABLE households ADD COLUMN rev INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE txns ADD COLUMN rev INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE txns ADD COLUMN deleted INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE txns ADD COLUMN modified_at TEXT;
+      UPDATE txns SET rev = rowid, modified_at = updated_at;
+      UPDATE households SET rev = COALESCE((SELECT MAX(rev) FROM txns WHERE household_id = households.id), 0);
+      CREATE INDEX txns_rev ON txns (household_id, rev);
+    `,
+  },
+];
+
+export function openDatabase(file: string): Db {
+  if (file !== ":memory:") fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  migrate(db);
+  return db;
+}
+
+function migrate(db: Db) {
+  const current = db.pragma("user_version", { simple: true }) as number;
+  for (const m of MIGRATIONS) {
+    if (m.version <= current) continue;
+    db.transaction(() => {
+      db.exec(m.sql);
+      db.pragma(`user_version = ${m.version}`);
+    })();
+    console.info(`db: migrated to v${m.version} (${m.description})`);
+  }
+}
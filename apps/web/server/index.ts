@@ -0,0 +1,25 @@
+// apps/web/server/index.ts
+// ====== 同期サーバの起動（npm run server） ======
+//   SYNC_PORT         待ち受けポート（既定 8787）
+//   SYNC_DB           SQLite のファイル（既定 ./data/kakeibo.sqlite）
+//   SYNC_CORS_ORIGIN  アプリの配信元（既定 *）。公開するときは https://example.com のように絞る
+import { openDatabase } from "./db";
+import { createApp } from "./app";
+
+const port = Number(process.env.SYNC_PORT) || 8787;
+const file = process.env.SYNC_DB || "./data/kakeibo.sqlite";
+
+const db = openDatabase(file);
+const app = createApp(db, { corsOrigin: process.env.SYNC_CORS_ORIGIN || "*" });
+
+const server = app.listen(port, () => {
+  console.info(`sync server: http://localhost:${port} (db: ${file})`);
+});
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    server.close();
+    db.close();
+    process.exit(0);
+  });
+}
@@ -20,7 +20,53 @@ import {
   PieChart, Pie, Legend, Cell,
   ComposedChart, Line, CartesianGrid
 } from "recharts";
-import { Upload, Trash2, Plus, Wand2, Edit3, FileDown, RefreshCw, Sparkles, Camera } from "lucide-react";
+import { Upload, Trash2, Plus, Wand2, Edit3, FileDown, RefreshCw, Sparkles, Camera, Undo2, Redo2 } from "lucide-react";
+import { HouseholdSettings } from "@/components/HouseholdSettings";
+import { SettlementPanel } from "@/components/SettlementPanel";
+import { CsvImport } from "@/components/CsvImport";
+import { CsvExport } from "@/components/CsvExport";
+import { ReceiptReview } from "@/components/ReceiptReview";
+import { OcrQueueList } from "@/components/OcrQueueList";
+import { ReceiptList } from "@/components/ReceiptList";
+import { BUDGET_STATUS_LABELS, BudgetPanel } from "@/components/BudgetPanel";
+import { RecurringPanel } from "@/components/RecurringPanel";
+import { SubscriptionPanel } from "@/components/SubscriptionPanel";
+import { RulesPanel } from "@/components/RulesPanel";
+import { AiCategorize } from "@/components/AiCategorize";
+import { SyncSettings } from "@/components/SyncSettings";
+import { TrashPanel } from "@/components/TrashPanel";
+import { type BulkPatch, TxnList } from "@/components/TxnList";
+import { BackupPanel } from "@/components/BackupPanel";
+import { TagInput } from "@/components/TagInput";
+import { TagReport } from "@/components/TagReport";
+import type { Kind, Txn } from "@/lib/types";
+import { dupKey, localDate, prettyJPY, randomId } from "@/lib/utils";
+import {
+  DEFAULT_HOUSEHOLD,
+  type Household,
+  defaultPayerOf,
+  migrateLegacyPayers,
+  payerName,
+  payerOptions,
+} from "@/lib/household";
+import type { CsvProfile } from "@/lib/csv";
+import { OCR_ENGINE_LABELS, type OcrEngine, runOCR } from "@/lib/ocr";
+import { type StagedReceipt, releaseStaged, stageReceipt } from "@/lib/staging";
+import { useOcrQueue } from "@/lib/ocrQueue";
+import type { Receipt } from "@/lib/receipt";
+import { type BudgetRow, type Budgets, EMPTY_BUDGETS, computeBudgetRows, hasBudgets, totalAvailable } from "@/lib/budget";
+import { type RecurringRule, generateDue, withGenerated } from "@/lib/recurring";
+import { AI_ERROR_LABELS, AiError, type AnalysisResult } from "@/lib/aiSchema";
+import { fetchAnalysis } from "@/lib/aiAnalysis";
+import { type CategoryRule, type StoreLookup, applyRule, applyRules, findRule, ruleFromEdit } from "@/lib/rules";
+import { type DetectedSubscription, type SubscriptionMark, detectSubscriptions, subscriptionKey, toRecurringRule } from "@/lib/subscriptions";
+import { DEFAULT_SPLIT, type SettlementRecord, type SplitConfig } from "@/lib/settlement";
+import { touchChanged, useRecords, useSetting } from "@/lib/repository";
+import { useRemoteState } from "@/lib/sync";
+import { useTxnHistory } from "@/lib/history";
+import { DEFAULT_LIST_QUERY, type ListQuery, queryTxns, readUrlState, writeUrlState } from "@/lib/listQuery";
+import { TRASH_DAYS, type TrashItem, purgeExpired, removeFromTrash } from "@/lib/trash";
+import { collectTags } from "@/lib/tags";
 
 const CHART_COLORS = [
   "#4E79A7", // blue
@@ -40,49 +86,14 @@ const EXPENSE_COLOR = "#D32F2F"; // 深いレッド
 const NET_POS_COLOR = "#1E88E5"; // 黒字の差額カラー
 const NET_NEG_COLOR = "#EF6C00"; // 赤字の差額カラー
 
-// ====== 型 ======
-type Kind = "expense" | "income";
-type Txn = {
-  id: string;
-  date: string;            // YYYY-MM-DD
-  payer: "まや" | "かずみ" | "共同";
-  category: string;
-  memo: string;
-  amount: number;          // JPY
-  kind: Kind;              // 収支
-};
+const KIND_LABELS: Record<Kind, string> = { expense: "支出", income: "収入", transfer: "精算" };
 
 const DEFAULT_CATEGORIES = [
   "食費", "日用品", "外食", "住居", "水道光熱", "通信", "交通", "医療", "趣味・娯楽", "美容・衣服", "交際費", "教育", "サブスク", "特別費", "その他",
 ];
 
-// ====== ユーティリティ ======
-const prettyJPY = (n: number) =>
-  n.toLocaleString("ja-JP", { style: "currency", currency: "JPY", maximumFractionDigits: 0 });
-
-function useLocalStorage<T>(key: string, initial: T) {
-  const [value, setValue] = useState<T>(() => {
-    try {
-      const raw = localStorage.getItem(key);
-      return raw ? (JSON.parse(raw) as T) : initial;
-    } catch {
-      return initial;
-    }
-  });
-  useEffect(() => {
-    localStorage.setItem(key, JSON.stringify(value));
-  }, [key, value]);
-  return [value, setValue] as const;
-}
-
-const randomId = () => Math.random().toString(36).slice(2, 10);
-
-// 重複キー（半角空白正規化）
-const dupKey = (t: Pick<Txn, "date" | "memo" | "amount" | "kind">) =>
-  `${t.date}|${t.memo.replace(/\s+/g, " ").trim()}|${t.amount}|${t.kind}`;
-
 // ====== Demo: ルールベースのアドバイス ======
-function heuristicAdvice(txns: Txn[], month: string) {
+function heuristicAdvice(txns: Txn[], month: string, budgetRows: BudgetRow[] = [], subs: DetectedSubscription[] = []) {
   const same = txns.filter((t) => t.date.slice(0, 7) === month && t.kind === "expense");
   const total = same.reduce((s, t) => s + t.amount, 0);
   const byCat: Record<string, number> = {};
@@ -90,7 +101,22 @@ function heuristicAdvice(txns: Txn[], month: string) {
   const top = Object.entries(byCat).sort((a, b) => b[1] - a[1]).slice(0, 3);
   const tips: string[] = [];
   if ((byCat["外食"] || 0) > 0.3 * total) tips.push("外食が支出の30%超。週1回は自炊デーを設定して1万円/月の節約を。");
-  if ((byCat["サブスク"] || 0) >= 2000) tips.push("サブスクが月2000円以上。直近3ヶ月で使っていないサービスは一旦解約候補に。");
+  const activeSubs = subs.filter((x) => !x.cancelled);
+  const subsAnnual = activeSubs.reduce((s, x) => s + x.annualCost, 0);
+  if (subsAnnual >= 24000) {
+    tips.push(`定期的な支払いが${activeSubs.length}件・年額${prettyJPY(subsAnnual)}。直近3ヶ月で使っていないサービスは一旦解約候補に。`);
+  }
+  for (const x of activeSubs) {
+    const p = x.priceChanges[x.priceChanges.length - 1];
+    if (p && p.to > p.from && p.date.slice(0, 7) === month) tips.push(`${x.memo}が${prettyJPY(p.from)}→${prettyJPY(p.to)}に値上がりしました。`);
+  }
+  for (const x of subs.filter((x) => x.chargedAfterCancel)) {
+    tips.push(`${x.memo}は解約済みのはずですが、${x.lastDate}に${prettyJPY(x.lastAmount)}の請求があります。`);
+  }
+  for (const r of budgetRows) {
+    if (r.status === "over") tips.push(`${r.category}が予算を${prettyJPY(-r.remaining)}超過しています。`);
+    if (r.status === "trending") tips.push(`${r.category}はこのペースだと月末に${prettyJPY(r.projected)}（予算 ${prettyJPY(r.available)}）になりそうです。`);
+  }
   if (same.length === 0) tips.push("まだデータが少ないです。レシートを2〜3枚取り込むと傾向が見えてきます。");
   return {
     summary: `${month} の支出は ${prettyJPY(total)}。上位カテゴリは ${top.map(([c]) => c).join("・") || "なし"}。`,
@@ -98,111 +124,71 @@ function heuristicAdvice(txns: Txn[], month: string) {
   };
 }
 
-// ====== OCR: OpenAI を使う（/api/ai/receipt） ======
-async function callVisionOCRViaServer(
-  imageFile: File
-): Promise<{ txns: Txn[]; raw: string }> {
-  // 画像 → dataURL
-  const dataUrl = await new Promise<string>((resolve, reject) => {
-    const fr = new FileReader();
-    fr.onload = () => resolve(fr.result as string);
-    fr.onerror = reject;
-    fr.readAsDataURL(imageFile);
-  });
-
-  // --- サーバ呼び出し ---
-  const r = await fetch("/api/ai/receipt", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ imageDataUrl: dataUrl }),
-  });
-
-  // 一度だけ読み取る
-  const txt = await r.text();
-
-  if (!r.ok) {
-    let msg = txt;
-    try {
-      const j = JSON.parse(txt);
-      msg = j?.error ?? msg;
-    } catch { }
-    throw new Error(msg || `HTTP ${r.status}`);
-  }
-
-  const payload = JSON.parse(txt) as {
-    items: Array<Partial<Txn>>;
-    raw?: string;
-  };
-
-  const today = new Date().toISOString().slice(0, 10);
-  const txns: Txn[] = (payload.items || [])
-    .map((i) => {
-      const memo = (i.memo || "").toString().trim() || "レシート項目";
-      const amtStr =
-        typeof i.amount === "string" ? i.amount : String(i.amount ?? "");
-      const amount = Number(amtStr.replace(/[^\d.-]/g, "")) || 0;
-      return {
-        id: randomId(),
-        date: i.date || today,
-        payer: (i.payer as any) || "共同",
-        category: i.category || "食費",
-        memo,
-        amount,
-        kind: (i.kind as Kind) || "expense",
-      };
-    })
-    .filter((t) => t.amount > 0);
-
-  return { txns, raw: payload.raw || "" };
-}
-
 // ====== メインコンポーネント ======
 export default function App() {
-  const [txns, setTxns] = useLocalStorage<Txn[]>("kakeibo.txns", []);
-  const [filterMonth, setFilterMonth] = useState<string>(() => new Date().toISOString().slice(0, 7));
-  const [ocrBusy, setOcrBusy] = useState(false);
+  const [txns, setTxns] = useRecords<Txn>("txns");
+  const [household, setHousehold] = useSetting<Household>("household", DEFAULT_HOUSEHOLD);
+  // タブ・月・明細一覧の条件は URL にも残す（ブックマークで同じ表示に戻れる）
+  const [urlState] = useState(readUrlState);
+  const [tab, setTab] = useState(urlState.tab ?? "dashboard");
+  const [filterMonth, setFilterMonth] = useState<string>(() => urlState.month ?? new Date().toISOString().slice(0, 7));
+  const [listQuery, setListQuery] = useState<ListQuery>(urlState.query);
   const [ocrLog, setOcrLog] = useState("");
+  const [ocrEngine, setOcrEngine] = useSetting<OcrEngine>("ocrEngine", "openai");
+  const [staged, setStaged] = useState<StagedReceipt[]>([]); // 保存前の OCR 結果
+  const [receipts, setReceipts] = useRecords<Receipt>("receipts");
+  const [dragOver, setDragOver] = useState(false);
   const fileRef = useRef<HTMLInputElement>(null);
   const cameraRef = useRef<HTMLInputElement>(null);
   const [aiBusy, setAiBusy] = useState(false);
-  const [aiOut, setAiOut] = useState<{
-    summary: string;
-    insights: string[];
-    warnings: string[];
-    suggestions: string[];
-  } | null>(null);
+  const [aiOut, setAiOut] = useState<AnalysisResult | null>(null);
+  const [aiError, setAiError] = useState<AiError | null>(null);
   const [aiLog, setAiLog] = useState("");
-  const [monthlyBudget, setMonthlyBudget] = useLocalStorage<number>("kakeibo.budget", 150000);
-
+  const [monthlyBudget, setMonthlyBudget] = useSetting<number>("budget", 150000);
+  const [budgets, setBudgets] = useSetting<Budgets>("categoryBudgets", EMPTY_BUDGETS);
+  const [recurring, setRecurring] = useSetting<RecurringRule[]>("recurring", []);
+  const [rules, setRules] = useSetting<CategoryRule[]>("rules", []);
+  const [subscriptionMarks, setSubscriptionMarks] = useSetting<Record<string, SubscriptionMark>>("subscriptionMarks", {});
+  const [split, setSplit] = useSetting<SplitConfig>("split", DEFAULT_SPLIT);
+  const [settlements, setSettlements] = useSetting<SettlementRecord[]>("settlements", []);
+  const [csvProfiles, setCsvProfiles] = useSetting<CsvProfile[]>("csvProfiles", []);
+  // 世帯のカテゴリ一覧（同期サーバと共有）。明細に使われているカテゴリはここになくても候補に出す
+  const [savedCategories] = useSetting<string[]>("categories", DEFAULT_CATEGORIES);
+  const syncState = useRemoteState();
+  // 利用者の操作による明細の変更は txnHistory.change を通す（元に戻す・ゴミ箱）
+  const [trash, setTrash] = useRecords<TrashItem>("trash");
+  const txnHistory = useTxnHistory(txns, setTxns, setTrash);
+
+  // 旧データ（payer が名前）の移行。起動時に一度だけ
+  useEffect(() => {
+    const r = migrateLegacyPayers(txns, household);
+    if (!r.changed) return;
+    setHousehold(r.household);
+    setTxns(r.txns);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // ゴミ箱の期限切れを消す。起動時に一度だけ
+  useEffect(() => {
+    setTrash((prev) => purgeExpired(prev));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
   async function runAIAnalysis() {
     try {
       setAiBusy(true);
+      setAiError(null);
       setAiLog("AIに送信中…");
 
-      // その月に限定しても良いし、全件でもOK。ここでは全件を渡して月だけ指定
-      const r = await fetch("/api/ai/analyze", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ month: filterMonth, txns }),
-      });
-
-      const txt = await r.text();
-      if (!r.ok) {
-        let msg = txt;
-        try {
-          msg = JSON.parse(txt)?.error ?? msg;
-        } catch { }
-        throw new Error(msg || `HTTP ${r.status}`);
-      }
-
-      const data = JSON.parse(txt);
+      // 対象月と前3か月分だけを送り、集計はサーバ側で行う
+      const data = await fetchAnalysis(filterMonth, txns, { household, budgets, monthlyBudget, categories });
       setAiOut(data);
       setAiLog("完了");
     } catch (e: any) {
-      const msg = e?.message ?? String(e);
-      alert(`AI分析でエラー: ${msg}`);
-      setAiLog(`エラー: ${msg}`);
+      const err = e instanceof AiError ? e : new AiError("http", e?.message ?? String(e));
+      console.error("AI analysis error:", err.code, err.message, err.details);
+      setAiError(err);
+      setAiLog(`エラー: ${err.message}`);
     } finally {
       setAiBusy(false);
     }
@@ -221,12 +207,16 @@ export default function App() {
 
   const months = useMemo(() => Object.keys(byMonth).sort().reverse(), [byMonth]);
   const visible = byMonth[filterMonth] || [];
+  const listed = useMemo(() => queryTxns(txns, listQuery, filterMonth, household), [txns, listQuery, filterMonth, household]);
+  useEffect(() => writeUrlState({ tab, month: filterMonth, query: listQuery }), [tab, filterMonth, listQuery]);
+  // 入力補完・絞り込みの候補にする、使ったことのあるタグ
+  const allTags = useMemo(() => collectTags(txns), [txns]);
 
   const categories = useMemo(() => {
-    const s = new Set(DEFAULT_CATEGORIES);
+    const s = new Set(savedCategories);
     txns.forEach(t => s.add(t.category));
     return Array.from(s);
-  }, [txns]);
+  }, [txns, savedCategories]);
 
   // グラフ用
   const categoryAgg = useMemo(() => {
@@ -237,6 +227,23 @@ export default function App() {
     return Object.entries(agg).map(([name, value]) => ({ name, value }));
   }, [visible]);
 
+  // 支払者別（支出）。共同 + 有効メンバー + 今月の明細に出てくる無効メンバー
+  const payerAgg = useMemo(() => {
+    const agg: Record<string, number> = {};
+    for (const t of visible.filter(v => v.kind === "expense")) {
+      agg[t.payer] = (agg[t.payer] || 0) + t.amount;
+    }
+    const ids = new Set([...payerOptions(household).map((p) => p.id), ...Object.keys(agg)]);
+    return Array.from(ids).map((id) => ({ name: payerName(household, id), value: agg[id] || 0 }));
+  }, [visible, household]);
+
+  // 支払者ごとの明細件数（世帯設定の表示用）
+  const payerUsage = useMemo(() => {
+    const u: Record<string, number> = {};
+    for (const t of txns) u[t.payer] = (u[t.payer] || 0) + 1;
+    return u;
+  }, [txns]);
+
   const monthAgg = useMemo(() => {
     return months.map((m) => ({
       month: m,
@@ -284,6 +291,15 @@ export default function App() {
   // 今月の差額
   const netThisMonth = incomeTotal - expenseTotal;
 
+  // カテゴリ別予算。設定があれば全体予算はその合計（繰越込み）、なければ従来の月予算
+  const budgetRows = useMemo(
+    () => computeBudgetRows(budgets, txns, filterMonth, categories),
+    [budgets, txns, filterMonth, categories]
+  );
+  const useCategoryBudgets = hasBudgets(budgets);
+  const effectiveBudget = useCategoryBudgets ? totalAvailable(budgetRows) : monthlyBudget;
+  const budgetAlerts = budgetRows.filter((r) => r.status !== "ok");
+
   const progressData = useMemo(() => {
     // 対象月（YYYY-MM）→ 月初 Date
     const year = Number(filterMonth.slice(0, 4));
@@ -307,7 +323,7 @@ export default function App() {
       }
     }
 
-    const perDayBudget = monthlyBudget / Math.max(1, lastDay);
+    const perDayBudget = effectiveBudget / Math.max(1, lastDay);
     const rows: Array<{
       day: string;
       expense: number;
@@ -337,7 +353,7 @@ export default function App() {
       });
     }
     return rows;
-  }, [visible, filterMonth, monthlyBudget]);
+  }, [visible, filterMonth, effectiveBudget]);
 
 
 
@@ -354,14 +370,13 @@ export default function App() {
     if (news.length === 0 && dups.length > 0) {
       const ok = window.confirm("既に取り込み済のレシートのようですが、記録しますか？");
       if (!ok) return;
-      const forced = [...txns, ...dups.map(d => ({ ...d, id: randomId() }))];
-      setTxns(forced);
+      txnHistory.change("明細の取り込み", (prev) => [...prev, ...dups.map(d => ({ ...d, id: randomId() }))]);
       alert(`${dups.length}件を再登録しました。`);
       return;
     }
 
     if (news.length > 0) {
-      setTxns((prev) => [...news, ...prev]);
+      txnHistory.change("明細の取り込み", (prev) => [...news, ...prev]);
       const msg = dups.length
         ? `${news.length}件を追加しました（重複 ${dups.length}件はスキップ）。`
         : `${news.length}件を追加しました。`;
@@ -371,49 +386,112 @@ export default function App() {
     }
   }
 
-  // ====== OCR ハンドラ ======
-  async function handleOpenAIOcr(file: File) {
-    setOcrBusy(true);
-    setOcrLog("OpenAI Vision に送信中…");
-    try {
-      const { txns, raw } = await callVisionOCRViaServer(file);
-      setOcrLog(`RAW:\n${(raw || "").slice(0, 1000)}`);
-      addImportedWithDupPrompt(txns);
-      if (txns.length) setFilterMonth(txns[0].date.slice(0, 7));
-      if (!txns.length) alert("追加できる新規明細はありませんでした（空の結果）。");
-    } catch (e: any) {
-      const msg =
-        e?.message ??
-        (typeof e === "string" ? e : JSON.stringify(e ?? {}));
-      console.error("OCR client error:", e);
-      alert(`OpenAI OCRでエラー: ${msg}`);
-      setOcrLog(`OpenAI OCRでエラー: ${msg}`);
-    } finally {
-      setOcrBusy(false);
-    }
+  // ====== OCR キュー ======
+  // 1 枚ずつ確認画面に載せ、キューが空になったらまとめて確認する
+  const ocrQueue = useOcrQueue(
+    (item, onProgress) => runOCR(item.engine, item.file, household, onProgress, allTags),
+    (item, { txns: found, raw, receipt }) => {
+      setOcrLog(`RAW（${item.file.name}）:\n${(raw || "").slice(0, 1000)}`);
+      // 自動分類ルール（店名ルールはレシートの店名で判定）
+      const categorized = applyRules(rules, found, () => receipt.storeName || undefined);
+      setStaged((prev) => [...prev, stageReceipt(item.file, categorized, raw, receipt, txns)]);
+    },
+    // tesseract.js は重いので 1 枚ずつ
+    ocrEngine === "local" ? 1 : 3
+  );
+
+  function enqueueFiles(list: FileList | null | undefined) {
+    const files = Array.from(list ?? []);
+    if (!files.length) return;
+    const n = ocrQueue.add(files, ocrEngine);
+    if (n < files.length) alert(`画像以外のファイル ${files.length - n}件は無視しました。`);
+  }
+
+  // ====== OCR 確認画面から保存 ======
+  function commitStaged({ receipts: saved, txns: list }: { receipts: Receipt[]; txns: Txn[] }) {
+    const ids = new Set(saved.map((r) => r.id));
+    setReceipts((prev) => [...saved, ...prev]);
+    txnHistory.change("レシートの取り込み", (prev) => [...list, ...prev], {
+      undo: () => setReceipts((prev) => prev.filter((r) => !ids.has(r.id))),
+      redo: () => setReceipts((prev) => [...saved, ...prev.filter((r) => !ids.has(r.id))]),
+    });
+    releaseStaged(staged);
+    setStaged([]);
+    if (list.length) setFilterMonth(list[0].date.slice(0, 7));
+  }
+  function discardStaged() {
+    releaseStaged(staged);
+    setStaged([]);
+  }
+  function changeStaged(next: StagedReceipt[]) {
+    // 破棄されたレシートの画像 URL を解放
+    releaseStaged(staged.filter((r) => !next.some((n) => n.id === r.id)));
+    setStaged(next);
   }
 
-  // CSV 書き出し
-  function exportCSV() {
-    const header = ["id", "date", "payer", "category", "memo", "amount", "kind"].join(",");
-    const rows = txns.map(t => [t.id, t.date, t.payer, t.category, (String(t.memo) || "").split(",").join(" "), t.amount, t.kind].join(","));
-    const csv = [header, ...rows].join("\n");
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `kakeibo_${new Date().toISOString().slice(0, 10)}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+  // CSV 取り込み（重複チェックは OCR と共通）
+  function importCSV(imported: Txn[]) {
+    addImportedWithDupPrompt(applyRules(rules, imported));
+    if (imported.length) setFilterMonth(imported[0].date.slice(0, 7));
+  }
+  function saveCsvProfile(p: CsvProfile) {
+    setCsvProfiles((prev) => [...prev.filter((x) => x.id !== p.id), p]);
+  }
+
+  // アプリ形式 CSV からの復元（ID 単位で上書き、なければ追加）
+  function restoreCSV(restored: Txn[]) {
+    const byId = new Map(restored.map((t) => [t.id, t]));
+    const overwrite = txns.filter((t) => byId.has(t.id)).length;
+    if (!window.confirm(`${restored.length}件を復元します（上書き ${overwrite}件）。よろしいですか？`)) return;
+    txnHistory.change("CSVから復元", (prev) => {
+      const kept = prev.map((t) => byId.get(t.id) ?? t);
+      const seen = new Set(prev.map((t) => t.id));
+      return [...restored.filter((t) => !seen.has(t.id)), ...kept];
+    });
+    alert(`${restored.length}件を復元しました。`);
+  }
+
+  // ====== 定期ルール ======
+  // 開いたとき（とルールを追加・変更したとき）に今日までの分を生成する
+  useEffect(() => {
+    const due = generateDue(recurring, txns, localDate());
+    if (!due.changed) return;
+    setRecurring(due.rules);
+    // ここでの txns は古いことがあるので、最後は最新の明細と突き合わせて足す
+    if (due.txns.length) setTxns((prev) => touchChanged(prev, withGenerated(prev, due.txns)));
+    // txns は重複チェックにだけ使う（明細の変更では再生成しない）
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [recurring]);
+
+  // ====== サブスク検出 ======
+  const subscriptions = useMemo(
+    () => detectSubscriptions(txns, subscriptionMarks, recurring, new Date().toISOString().slice(0, 10)),
+    [txns, subscriptionMarks, recurring]
+  );
+  function subscriptionToRule(s: DetectedSubscription) {
+    setRecurring((prev) => [...prev, toRecurringRule(s)]);
+    alert(`「${s.memo}」を定期ルールにしました（次回 ${s.nextExpected} ごろから自動で追加されます）。`);
+  }
+  function cancelSubscription(s: DetectedSubscription) {
+    const today = new Date().toISOString().slice(0, 10);
+    setSubscriptionMarks((prev) => ({ ...prev, [s.key]: { status: "cancelled", at: today } }));
+    // 同じ内容の定期ルールは今日で終了にする
+    setRecurring((prev) => prev.map((r) => (s.hasRule && subscriptionKey(r.memo) === s.key && !r.endDate ? { ...r, endDate: today } : r)));
+  }
+  function uncancelSubscription(s: DetectedSubscription) {
+    setSubscriptionMarks((prev) => {
+      const { [s.key]: _removed, ...rest } = prev;
+      return rest;
+    });
   }
 
   // 手入力用の状態
-  const [newItem, setNewItem] = useState<Partial<Txn>>({
+  const [newItem, setNewItem] = useState<Partial<Txn>>(() => ({
     date: new Date().toISOString().slice(0, 10),
-    payer: "共同",
+    payer: defaultPayerOf(household),
     category: "食費",
     kind: "expense",
-  });
+  }));
   const [editId, setEditId] = useState<string | null>(null);
 
   function addTxn() {
@@ -421,11 +499,13 @@ export default function App() {
     const t: Txn = {
       id: randomId(),
       date: newItem.date!,
-      payer: (newItem.payer as any) || "共同",
+      payer: newItem.payer || defaultPayerOf(household),
       category: newItem.category!,
       memo: newItem.memo || "",
       amount: Number(newItem.amount),
       kind: newItem.kind as Kind,
+      ...(newItem.kind === "expense" && newItem.personal ? { personal: true } : {}),
+      ...(newItem.tags?.length ? { tags: newItem.tags } : {}),
     };
     const key = dupKey(t);
     const exists = new Set(txns.map(dupKey)).has(key);
@@ -433,29 +513,139 @@ export default function App() {
       const ok = window.confirm("既に同一の明細があるようです。登録しますか？");
       if (!ok) return;
     }
-    setTxns((prev) => [t, ...prev]);
-    setNewItem({ date: new Date().toISOString().slice(0, 10), payer: "共同", category: t.category, kind: t.kind });
+    txnHistory.change("明細の追加", (prev) => [t, ...prev]);
+    setNewItem({ date: new Date().toISOString().slice(0, 10), payer: defaultPayerOf(household), category: t.category, kind: t.kind });
   }
 
   function removeTxn(id: string) {
-    setTxns((prev) => prev.filter((t) => t.id !== id));
+    txnHistory.change("明細の削除", (prev) => prev.filter((t) => t.id !== id));
   }
   function startEdit(t: Txn) {
     setEditId(t.id);
     setNewItem({ ...t });
+    setTab("add");
+  }
+  // 明細一覧での一括変更
+  function bulkUpdate(ids: string[], patch: BulkPatch) {
+    const target = new Set(ids);
+    const label = patch.category ? "カテゴリの一括変更" : patch.payer ? "支払者の一括変更" : "日付の一括変更";
+    txnHistory.change(label, (prev) => prev.map((t) => (target.has(t.id) ? { ...t, ...patch } : t)));
+  }
+  function bulkDelete(ids: string[]) {
+    const target = new Set(ids);
+    txnHistory.change("明細の一括削除", (prev) => prev.filter((t) => !target.has(t.id)));
+  }
+  // タグ別の集計から、そのタグ・期間の明細一覧へ
+  function showTagList(tag: string, from: string, to: string) {
+    setListQuery({ ...DEFAULT_LIST_QUERY, tags: tag, from, to });
+    setTab("list");
+  }
+  /** 手入力でメモを入れたら、一致するルールのカテゴリ・支払者・タグを入れておく（編集中は変えない） */
+  function changeMemo(memo: string) {
+    setNewItem((s) => {
+      const next = { ...s, memo };
+      if (editId || !memo.trim()) return next;
+      const rule = findRule(rules, next as Txn);
+      return rule ? applyRule(rule, next as Txn) : next;
+    });
   }
   function saveEdit() {
     if (!editId) return;
-    const updated = { ...(newItem as Txn), id: editId };
-    setTxns((prev) => prev.map((t) => (t.id === editId ? updated : t)));
+    const { tags, ...rest } = newItem as Txn;
+    const updated: Txn = { ...rest, id: editId, ...(tags?.length ? { tags } : {}) };
+    const before = txns.find((t) => t.id === editId);
+    txnHistory.change("明細の編集", (prev) => prev.map((t) => (t.id === editId ? updated : t)));
+    // カテゴリを直したら、同じメモを次から自動で分類するルールを提案する
+    if (before && before.category !== updated.category && updated.memo.trim()) {
+      const current = findRule(rules, updated, storeOf);
+      if (current?.category !== updated.category) {
+        const rule = ruleFromEdit(updated, updated.category);
+        if (confirm(`「${rule.pattern}」を含む明細を今後「${updated.category}」に分類するルールを作りますか？\n（設定タブの「自動分類ルール」で変更できます）`)) {
+          setRules((prev) => [...prev, rule]);
+        }
+      }
+    }
     setEditId(null);
-    setNewItem({ date: new Date().toISOString().slice(0, 10), payer: "共同", category: "食費", kind: "expense" });
+    setNewItem({ date: new Date().toISOString().slice(0, 10), payer: defaultPayerOf(household), category: "食費", kind: "expense" });
   }
+  // ====== 精算 ======
+  function recordSettlement(record: SettlementRecord, created: Txn[]) {
+    setSettlements((prev) => [record, ...prev]);
+    txnHistory.change("精算の記録", (prev) => [...created, ...prev], {
+      undo: () => setSettlements((prev) => prev.filter((s) => s.id !== record.id)),
+      redo: () => setSettlements((prev) => [record, ...prev.filter((s) => s.id !== record.id)]),
+    });
+  }
+  function voidSettlement(id: string) {
+    const before = settlements.find((s) => s.id === id);
+    if (!before) return;
+    const voided = { ...before, voidedAt: new Date().toISOString() };
+    const put = (s: SettlementRecord) => setSettlements((prev) => prev.map((x) => (x.id === id ? s : x)));
+    put(voided);
+    txnHistory.change("精算の取り消し", (prev) => prev.filter((t) => t.settlementId !== id), {
+      undo: () => put(before),
+      redo: () => put(voided),
+    });
+  }
+
   function resetAll() {
-    if (confirm("すべてのデータを削除します。よろしいですか？")) setTxns([]);
+    if (!confirm(`すべてのデータを削除します。よろしいですか？\n（明細はゴミ箱に${TRASH_DAYS}日間残り、「元に戻す」でも戻せます）`)) return;
+    const before = { settlements, receipts };
+    setSettlements([]);
+    setReceipts([]);
+    txnHistory.change("すべて削除", () => [], {
+      undo: () => {
+        setSettlements(before.settlements);
+        setReceipts(before.receipts);
+      },
+      redo: () => {
+        setSettlements([]);
+        setReceipts([]);
+      },
+    });
   }
 
-  const advice = heuristicAdvice(txns, filterMonth);
+  // レシートを消すときは紐づく明細も消す
+  function deleteReceipt(id: string) {
+    const receipt = receipts.find((r) => r.id === id);
+    if (!receipt) return;
+    setReceipts((prev) => prev.filter((r) => r.id !== id));
+    txnHistory.change("レシートの削除", (prev) => prev.filter((t) => t.receiptId !== id), {
+      undo: () => setReceipts((prev) => [receipt, ...prev]),
+      redo: () => setReceipts((prev) => prev.filter((r) => r.id !== id)),
+    });
+  }
+
+  // ====== ゴミ箱 ======
+  function restoreFromTrash(ids: string[]) {
+    const items = trash.filter((x) => ids.includes(x.id));
+    if (!items.length) return;
+    const restored = new Set(ids);
+    setTrash((prev) => removeFromTrash(prev, ids));
+    // 元に戻したら、ゴミ箱にも戻す
+    txnHistory.change("ゴミ箱から復元", (prev) => [...items.map((x) => x.txn), ...prev.filter((t) => !restored.has(t.id))], {
+      undo: () => setTrash((prev) => [...items, ...removeFromTrash(prev, ids)]),
+      redo: () => setTrash((prev) => removeFromTrash(prev, ids)),
+    });
+  }
+  function purgeTrash(ids: string[]) {
+    setTrash((prev) => removeFromTrash(prev, ids));
+  }
+  const receiptById = useMemo(() => new Map(receipts.map((r) => [r.id, r])), [receipts]);
+  const storeOf: StoreLookup = useMemo(
+    () => (t: Txn) => (t.receiptId ? receiptById.get(t.receiptId)?.storeName || undefined : undefined),
+    [receiptById]
+  );
+  function applyCategorySuggestions(changes: Array<{ txnId: string; category: string }>) {
+    const next = new Map(changes.map((c) => [c.txnId, c.category]));
+    txnHistory.change("AIによるカテゴリ変更", (prev) => prev.map((t) => (next.has(t.id) ? { ...t, category: next.get(t.id)! } : t)));
+  }
+  function applyRuleToPast(rule: CategoryRule, targets: Txn[]) {
+    const ids = new Set(targets.map((t) => t.id));
+    txnHistory.change("ルールの適用", (prev) => prev.map((t) => (ids.has(t.id) ? applyRule(rule, t) : t)));
+  }
+
+  const advice = heuristicAdvice(txns, filterMonth, budgetRows, subscriptions);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 p-6">
@@ -465,6 +655,24 @@ export default function App() {
           <header className="mb-6 flex items-center justify-between">
 
             <div className="flex gap-2">
+              {/* 元に戻す・やり直す（Ctrl/⌘+Z、Ctrl/⌘+Shift+Z） */}
+              <Button
+                variant="outline"
+                disabled={!txnHistory.undoLabel}
+                title={txnHistory.undoLabel ? `元に戻す: ${txnHistory.undoLabel}（Ctrl+Z）` : "元に戻す"}
+                onClick={txnHistory.undo}
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                disabled={!txnHistory.redoLabel}
+                title={txnHistory.redoLabel ? `やり直す: ${txnHistory.redoLabel}（Ctrl+Shift+Z）` : "やり直す"}
+                onClick={txnHistory.redo}
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+
               {/* クイックスタート（ダイアログをここに内包） */}
               <Dialog>
                 <DialogTrigger asChild>
@@ -479,25 +687,36 @@ export default function App() {
                   </DialogHeader>
 
                   <ol className="list-decimal pl-6 space-y-2 text-sm">
-                    <li>「追加/レシートOCR」でレシート画像をアップロード → OpenAIでOCR。</li>
+                    <li>「追加/レシートOCR」でレシート画像をアップロード → OpenAIでOCR → 読み取り結果を確認して保存。</li>
                     <li>認識ミスは「明細一覧」から編集。手入力追加もOK。</li>
                     <li>「ダッシュボード」で月の合計、カテゴリ内訳、月別推移を確認。</li>
+                    <li>「精算」で立て替えた支出の割り勘を計算し、精算を記録。</li>
                     <li>「AI分析」でAIの自動レポートを取得。</li>
-                    <li>「CSVエクスポート」でバックアップ。ローカル保存はlocalStorageです。</li>
+                    <li>バックアップは「設定」の「バックアップ（JSON）」から。ローカル保存はブラウザ内（IndexedDB）です。</li>
                   </ol>
 
                   <p className="mt-2 text-xs text-slate-500">
-                    ※ 本番化時はユーザー/世帯ごとのクラウド保存・レシートテンプレ適応・検索とタグ付け・割り勘精算・共有リンクなどを追加してください。
+                    ※ 本番化時はユーザー/世帯ごとのクラウド保存・レシートテンプレ適応・検索とタグ付け・共有リンクなどを追加してください。
                   </p>
                 </DialogContent>
               </Dialog>
 
 
               {/* CSV */}
-              <Button variant="outline" onClick={exportCSV}>
-                <FileDown className="mr-2 h-4 w-4" />
-                CSVエクスポート
-              </Button>
+              <Dialog>
+                <DialogTrigger>
+                  <Button variant="outline">
+                    <FileDown className="mr-2 h-4 w-4" />
+                    CSVエクスポート
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>CSVエクスポート</DialogTitle>
+                  </DialogHeader>
+                  <CsvExport txns={txns} listTxns={listed} month={filterMonth} household={household} />
+                </DialogContent>
+              </Dialog>
 
 
               {/* 全消去 */}
@@ -510,13 +729,15 @@ export default function App() {
 
         </header>
 
-        <Tabs defaultValue="dashboard" className="space-y-6">
+        <Tabs defaultValue="dashboard" value={tab} onValueChange={setTab} className="space-y-6">
           <TabsList>
             <TabsTrigger value="dashboard">ダッシュボード</TabsTrigger>
             <TabsTrigger value="analysis">分析</TabsTrigger>
             <TabsTrigger value="add">追加/レシートOCR</TabsTrigger>
             <TabsTrigger value="list">明細一覧</TabsTrigger>
+            <TabsTrigger value="settle">精算</TabsTrigger>
             <TabsTrigger value="ai">AI分析</TabsTrigger>
+            <TabsTrigger value="settings">設定{syncState.conflicts.length > 0 && `（競合${syncState.conflicts.length}）`}</TabsTrigger>
           </TabsList>
 
           {/* Dashboard */}
@@ -603,6 +824,18 @@ export default function App() {
                   {advice.bullets.map((b, i) => (<li key={i}>{b}</li>))}
                   {advice.bullets.length === 0 && <li>支出は良好なバランス。この調子！</li>}
                 </ul>
+                {budgetAlerts.length > 0 && (
+                  <div className="mt-4 flex flex-wrap gap-2">
+                    {budgetAlerts.map((r) => (
+                      <span
+                        key={r.category}
+                        className={`rounded-full px-3 py-1 text-xs ${r.status === "over" ? "bg-red-50 text-red-700" : "bg-orange-50 text-orange-700"}`}
+                      >
+                        {r.category}: {BUDGET_STATUS_LABELS[r.status]}（{prettyJPY(r.spent)} / {prettyJPY(r.available)}）
+                      </span>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -682,6 +915,25 @@ export default function App() {
               </Card>
             </div>
 
+            {/* 支払者別（支出） */}
+            <Card>
+              <CardHeader><CardTitle>支払者別（支出）</CardTitle></CardHeader>
+              <CardContent className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={payerAgg}>
+                    <XAxis dataKey="name" />
+                    <YAxis />
+                    <Tooltip formatter={(v: any) => prettyJPY(Number(v))} />
+                    <Bar dataKey="value" name="支出">
+                      {payerAgg.map((_, i) => (
+                        <Cell key={`payer-${i}`} fill={CHART_COLORS[i % CHART_COLORS.length]} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
             {/* 下段：直近6ヶ月の収支推移（スタック棒） */}
             <Card>
               <CardHeader><CardTitle>直近6ヶ月の収支推移</CardTitle></CardHeader>
@@ -708,14 +960,18 @@ export default function App() {
               <CardContent className="space-y-3">
                 <div className="flex items-center gap-3">
                   <Label className="text-sm w-28">今月の予算</Label>
-                  <Input
-                    type="number"
-                    className="max-w-[160px]"
-                    value={monthlyBudget}
-                    onChange={(e) => setMonthlyBudget(Number(e.target.value || 0))}
-                  />
+                  {useCategoryBudgets ? (
+                    <span className="text-sm">{prettyJPY(effectiveBudget)}（カテゴリ別予算の合計）</span>
+                  ) : (
+                    <Input
+                      type="number"
+                      className="max-w-[160px]"
+                      value={monthlyBudget}
+                      onChange={(e) => setMonthlyBudget(Number(e.target.value || 0))}
+                    />
+                  )}
                   <span className="text-sm text-slate-500">
-                    1日あたり目安: {prettyJPY(Math.round(monthlyBudget / Math.max(1, progressData.length || 1)))}
+                    1日あたり目安: {prettyJPY(Math.round(effectiveBudget / Math.max(1, progressData.length || 1)))}
                   </span>
                 </div>
 
@@ -743,6 +999,18 @@ export default function App() {
                 </div>
               </CardContent>
             </Card>
+
+            <BudgetPanel budgets={budgets} onChange={setBudgets} rows={budgetRows} month={filterMonth} categories={categories} />
+
+            <TagReport txns={txns} month={filterMonth} onShowList={showTagList} />
+
+            <SubscriptionPanel
+              items={subscriptions}
+              household={household}
+              onCreateRule={subscriptionToRule}
+              onCancel={cancelSubscription}
+              onUncancel={uncancelSubscription}
+            />
           </TabsContent>
 
 
@@ -752,21 +1020,30 @@ export default function App() {
               <CardHeader><CardTitle>レシート画像を取り込む</CardTitle></CardHeader>
               <CardContent>
                 <div className="flex flex-wrap items-center gap-2">
+                  <div className="w-56">
+                    <Select value={ocrEngine} onValueChange={(v) => setOcrEngine(v as OcrEngine)}>
+                      <SelectTrigger><SelectValue>OCR: {OCR_ENGINE_LABELS[ocrEngine]}</SelectValue></SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(OCR_ENGINE_LABELS) as OcrEngine[]).map((k) => (<SelectItem key={k} value={k}>{OCR_ENGINE_LABELS[k]}</SelectItem>))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   {/* 隠し input: 画像ファイル */}
                   <input
                     ref={fileRef}
                     type="file"
                     accept="image/*"
+                    multiple
                     className="hidden"
-                    onChange={async (e) => {
-                      const f = e.target.files?.[0];
-                      if (f) await handleOpenAIOcr(f);
+                    onChange={(e) => {
+                      enqueueFiles(e.target.files);
                       e.currentTarget.value = ""; // 同じファイル連続選択のためクリア
                     }}
                   />
-                  <Button type="button" variant="default" disabled={ocrBusy}
+                  <Button type="button" variant="default"
                     onClick={() => fileRef.current?.click()}>
-                    画像を選択（OpenAI）
+                    画像を選択（{OCR_ENGINE_LABELS[ocrEngine]}・複数可）
                   </Button>
 
                   {/* 隠し input: カメラ撮影 */}
@@ -776,29 +1053,81 @@ export default function App() {
                     accept="image/*"
                     capture="environment"
                     className="hidden"
-                    onChange={async (e) => {
-                      const f = e.target.files?.[0];
-                      if (f) await handleOpenAIOcr(f);
+                    onChange={(e) => {
+                      enqueueFiles(e.target.files);
                       e.currentTarget.value = "";
                     }}
                   />
-                  <Button type="button" variant="outline" disabled={ocrBusy}
+                  <Button type="button" variant="outline"
                     onClick={() => cameraRef.current?.click()}>
-                    写真を撮る（OpenAI）
+                    写真を撮る（{OCR_ENGINE_LABELS[ocrEngine]}）
                   </Button>
 
-                  {ocrBusy && (
-                    <Button variant="outline" disabled>OCR中…</Button>
+                  {ocrQueue.busy && (
+                    <Button variant="outline" disabled><RefreshCw className="mr-2 h-4 w-4 animate-spin" />OCR中…</Button>
                   )}
                 </div>
 
+                {/* ドラッグ＆ドロップ */}
+                <div
+                  className={`mt-3 rounded-2xl border-2 border-dashed p-6 text-center text-sm ${dragOver ? "border-slate-500 bg-slate-100" : "border-slate-300 text-slate-500"}`}
+                  onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+                  onDragLeave={() => setDragOver(false)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    setDragOver(false);
+                    enqueueFiles(e.dataTransfer.files);
+                  }}
+                >
+                  <Upload className="mx-auto mb-1 h-5 w-5" />
+                  レシート画像をここにドロップ（複数まとめてOK）
+                </div>
+
+                <OcrQueueList
+                  items={ocrQueue.items}
+                  onRetry={ocrQueue.retry}
+                  onRemove={ocrQueue.remove}
+                  onClearFinished={ocrQueue.clearFinished}
+                />
+
                 <Textarea className="mt-3 h-24" value={ocrLog} readOnly placeholder="OCRの進捗・結果が表示されます" />
                 <p className="mt-2 text-xs text-slate-500">
-                  ※ ブラウザ→サーバ→OpenAIでOCRします。文字密度が高い/傾きが大きい画像は精度が落ちる場合があります。
+                  {ocrEngine === "local"
+                    ? "※ ブラウザ内（tesseract.js）でOCRし、画像は外部に送信しません。商品行と金額をルールで抽出するため、OpenAIより精度は落ちます。"
+                    : "※ ブラウザ→サーバ→OpenAIでOCRします。文字密度が高い/傾きが大きい画像は精度が落ちる場合があります。"}
                 </p>
               </CardContent>
             </Card>
 
+            {staged.length > 0 && ocrQueue.busy && (
+              <Alert>
+                <AlertTitle>読み取り中</AlertTitle>
+                <AlertDescription>{staged.length}枚読み取り済み。残りが終わるとまとめて確認できます。</AlertDescription>
+              </Alert>
+            )}
+            {staged.length > 0 && !ocrQueue.busy && (
+              <ReceiptReview
+                receipts={staged}
+                onChange={changeStaged}
+                existing={txns}
+                household={household}
+                categories={categories}
+                onCommit={commitStaged}
+                onDiscard={discardStaged}
+              />
+            )}
+
+            <CsvImport
+              household={household}
+              categories={categories}
+              existing={txns}
+              profiles={csvProfiles}
+              onSaveProfile={saveCsvProfile}
+              onImport={importCSV}
+              onRestore={restoreCSV}
+              defaultPayer={defaultPayerOf(household)}
+            />
+
             <Card>
               <CardHeader><CardTitle>手入力で追加</CardTitle></CardHeader>
               <CardContent className="grid grid-cols-1 md:grid-cols-6 gap-3">
@@ -808,12 +1137,10 @@ export default function App() {
                 </div>
                 <div>
                   <Label>支払者</Label>
-                  <Select value={newItem.payer as any} onValueChange={(v) => setNewItem((s) => ({ ...s, payer: v as any }))}>
-                    <SelectTrigger><SelectValue placeholder="共同" /></SelectTrigger>
+                  <Select value={newItem.payer} onValueChange={(v) => setNewItem((s) => ({ ...s, payer: v }))}>
+                    <SelectTrigger><SelectValue placeholder="共同">{newItem.payer && payerName(household, newItem.payer)}</SelectValue></SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="共同">共同</SelectItem>
-                      <SelectItem value="まや">まや</SelectItem>
-                      <SelectItem value="かずみ">かずみ</SelectItem>
+                      {payerOptions(household, newItem.payer).map((p) => (<SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -828,7 +1155,7 @@ export default function App() {
                 </div>
                 <div className="md:col-span-2">
                   <Label>メモ</Label>
-                  <Input value={newItem.memo || ""} onChange={(e) => setNewItem((s) => ({ ...s, memo: e.target.value }))} placeholder="例：牛乳 2本" />
+                  <Input value={newItem.memo || ""} onChange={(e) => changeMemo(e.target.value)} placeholder="例：牛乳 2本" />
                 </div>
 
                 <div>
@@ -838,19 +1165,37 @@ export default function App() {
                 <div>
                   <Label>収支</Label>
                   <Select value={newItem.kind as any} onValueChange={(v) => setNewItem((s) => ({ ...s, kind: v as Kind }))}>
-                    <SelectTrigger><SelectValue placeholder="支出/収入" /></SelectTrigger>
+                    <SelectTrigger><SelectValue placeholder="支出/収入">{newItem.kind && KIND_LABELS[newItem.kind]}</SelectValue></SelectTrigger>
                     <SelectContent>
                       <SelectItem value="expense">支出</SelectItem>
                       <SelectItem value="income">収入</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
+                <div className="md:col-span-4">
+                  <Label>タグ</Label>
+                  <TagInput
+                    value={newItem.tags ?? []}
+                    onChange={(tags) => setNewItem((s) => ({ ...s, tags }))}
+                    suggestions={allTags}
+                    placeholder="例：旅行, 引っ越し（カテゴリをまたいで集計できます）"
+                  />
+                </div>
 
-                <div className="md:col-span-6 flex justify-end">
+                <div className="md:col-span-6 flex items-center justify-between">
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={!!newItem.personal}
+                      disabled={newItem.kind !== "expense"}
+                      onChange={(e) => setNewItem((s) => ({ ...s, personal: e.target.checked }))}
+                    />
+                    個人の支出（割り勘精算しない）
+                  </label>
                   {editId ? (
                     <div className="flex gap-2">
                       <Button onClick={saveEdit}><Edit3 className="mr-2 h-4 w-4" />保存</Button>
-                      <Button variant="outline" onClick={() => { setEditId(null); setNewItem({ date: new Date().toISOString().slice(0, 10), payer: "共同", category: "食費", kind: "expense" }); }}>キャンセル</Button>
+                      <Button variant="outline" onClick={() => { setEditId(null); setNewItem({ date: new Date().toISOString().slice(0, 10), payer: defaultPayerOf(household), category: "食費", kind: "expense" }); }}>キャンセル</Button>
                     </div>
                   ) : (
                     <Button onClick={addTxn}><Plus className="mr-2 h-4 w-4" />追加</Button>
@@ -858,59 +1203,53 @@ export default function App() {
                 </div>
               </CardContent>
             </Card>
+
+            <RecurringPanel
+              rules={recurring}
+              onChange={setRecurring}
+              household={household}
+              categories={categories}
+              today={localDate()}
+            />
           </TabsContent>
 
           {/* List */}
           <TabsContent value="list">
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between">
-                <CardTitle>明細一覧（{filterMonth}）</CardTitle>
-                <div className="flex items-center gap-2">
-                  <Label className="text-sm">月</Label>
-                  <Input type="month" value={filterMonth} onChange={(e) => setFilterMonth(e.target.value)} className="max-w-[160px]" />
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="overflow-x-auto">
-                  <table className="w-full text-sm">
-                    <thead>
-                      <tr className="text-left border-b">
-                        <th className="py-2 pr-2">日付</th>
-                        <th className="py-2 pr-2">支払者</th>
-                        <th className="py-2 pr-2">カテゴリ</th>
-                        <th className="py-2 pr-2">メモ</th>
-                        <th className="py-2 pr-2 text-right">金額</th>
-                        <th className="py-2 pr-2">収支</th>
-                        <th className="py-2 pr-2"></th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {visible.map((t) => (
-                        <tr key={t.id} className="border-b hover:bg-slate-50">
-                          <td className="py-2 pr-2">{t.date}</td>
-                          <td className="py-2 pr-2">{t.payer}</td>
-                          <td className="py-2 pr-2">{t.category}</td>
-                          <td className="py-2 pr-2">{t.memo}</td>
-                          <td className="py-2 pr-2 text-right">{prettyJPY(t.amount)}</td>
-                          <td className="py-2 pr-2">{t.kind === "income" ? "収入" : "支出"}</td>
-                          <td className="py-2 pr-2 text-right">
-                            <div className="flex justify-end gap-2">
-                              <Button size="sm" variant="outline" onClick={() => startEdit(t)}><Edit3 className="h-4 w-4" /></Button>
-                              <Button size="sm" variant="destructive" onClick={() => removeTxn(t.id)}><Trash2 className="h-4 w-4" /></Button>
-                            </div>
-                          </td>
-                        </tr>
-                      ))}
-                      {visible.length === 0 && (
-                        <tr>
-                          <td className="py-6 text-center text-slate-500" colSpan={7}>この月のデータはありません。レシートを取り込むか、手入力で追加してください。</td>
-                        </tr>
-                      )}
-                    </tbody>
-                  </table>
-                </div>
-              </CardContent>
-            </Card>
+            <TxnList
+              list={listed}
+              household={household}
+              categories={categories}
+              tags={allTags}
+              receiptById={receiptById}
+              month={filterMonth}
+              onMonthChange={setFilterMonth}
+              query={listQuery}
+              onQueryChange={setListQuery}
+              onEdit={startEdit}
+              onRemove={removeTxn}
+              onBulkUpdate={bulkUpdate}
+              onBulkDelete={bulkDelete}
+            />
+            <div className="mt-4">
+              <ReceiptList receipts={receipts} txns={txns} household={household} month={filterMonth} onDelete={deleteReceipt} />
+            </div>
+            <div className="mt-4">
+              <TrashPanel items={trash} household={household} onRestore={restoreFromTrash} onPurge={purgeTrash} />
+            </div>
+          </TabsContent>
+
+          {/* Settlement */}
+          <TabsContent value="settle">
+            <SettlementPanel
+              txns={txns}
+              household={household}
+              month={filterMonth}
+              split={split}
+              onSplitChange={setSplit}
+              settlements={settlements}
+              onRecord={recordSettlement}
+              onVoid={voidSettlement}
+            />
           </TabsContent>
 
           {/* Advisor */}
@@ -931,6 +1270,18 @@ export default function App() {
                   {aiBusy && <span className="text-sm text-slate-500">{aiLog}</span>}
                 </div>
 
+                {aiError && (
+                  <div className="rounded-2xl border border-red-300 bg-red-50 p-3 text-sm text-red-800">
+                    <div className="font-semibold">{AI_ERROR_LABELS[aiError.code]}</div>
+                    <div className="mt-1">{aiError.message}</div>
+                    {!!aiError.details.length && (
+                      <ul className="mt-1 list-disc pl-6 text-xs">
+                        {aiError.details.map((d, i) => <li key={i}>{d}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
                 {/* 出力 */}
                 {aiOut && (
                   <div className="space-y-4 mt-4">
@@ -940,7 +1291,7 @@ export default function App() {
                       <AlertDescription>{aiOut.summary}</AlertDescription>
                     </Alert>
 
-                    {!!aiOut.insights?.length && (
+                    {!!aiOut.insights.length && (
                       <div>
                         <div className="font-semibold mb-1">洞察</div>
                         <ul className="list-disc pl-6 space-y-1 text-slate-700">
@@ -949,7 +1300,7 @@ export default function App() {
                       </div>
                     )}
 
-                    {!!aiOut.warnings?.length && (
+                    {!!aiOut.warnings.length && (
                       <div>
                         <div className="font-semibold mb-1 text-red-600">注意点</div>
                         <ul className="list-disc pl-6 space-y-1 text-slate-700">
@@ -958,11 +1309,11 @@ export default function App() {
                       </div>
                     )}
 
-                    {!!aiOut.suggestions?.length && (
+                    {!!aiOut.actions.length && (
                       <div>
                         <div className="font-semibold mb-1 text-emerald-600">提案</div>
                         <ul className="list-disc pl-6 space-y-1 text-slate-700">
-                          {aiOut.suggestions.map((s, i) => <li key={i}>{s}</li>)}
+                          {aiOut.actions.map((s, i) => <li key={i}>{s}</li>)}
                         </ul>
                       </div>
                     )}
@@ -970,6 +1321,13 @@ export default function App() {
                 )}
               </CardContent>
             </Card>
+            <AiCategorize
+              txns={txns}
+              month={filterMonth}
+              categories={categories}
+              storeOf={storeOf}
+              onApply={applyCategorySuggestions}
+            />
             {/* <Card>
               <CardHeader>
                 <CardTitle>（オプション）AI API 接続設定</CardTitle>
@@ -991,6 +1349,28 @@ export default function App() {
             {/* === 進捗グラフ（日別）: 棒 = 当日支出 / 折れ線 = 累計支出 & 累計予算 === */}
 
           </TabsContent>
+
+          {/* Settings */}
+          <TabsContent value="settings" className="space-y-4">
+            <HouseholdSettings household={household} onChange={setHousehold} usage={payerUsage} />
+            <SyncSettings
+              household={household}
+              txns={txns}
+              categories={savedCategories}
+              budgets={budgets}
+              monthlyBudget={monthlyBudget}
+            />
+            <BackupPanel />
+            <RulesPanel
+              rules={rules}
+              onChange={setRules}
+              txns={txns}
+              storeOf={storeOf}
+              household={household}
+              categories={categories}
+              onApply={applyRuleToPast}
+            />
+          </TabsContent>
         </Tabs>
 
       </motion.div>
@@ -0,0 +1,148 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Check, RefreshCw, Tags, X } from "lucide-react";
+import type { Txn } from "@/lib/types";
+import type { StoreLookup } from "@/lib/rules";
+import {
+  type CategorySuggestion,
+  LOW_CONFIDENCE,
+  needsCategory,
+  requestCategorySuggestions,
+} from "@/lib/aiCategorize";
+import { AI_ERROR_LABELS, AiError } from "@/lib/aiSchema";
+import { prettyJPY } from "@/lib/utils";
+
+type Props = {
+  txns: Txn[];
+  month: string;           // YYYY-MM
+  categories: string[];
+  storeOf: StoreLookup;
+  onApply: (changes: Array<{ txnId: string; category: string }>) => void;
+};
+
+// ====== AI でカテゴリを提案（未分類・その他） ======
+export function AiCategorize({ txns, month, categories, storeOf, onApply }: Props) {
+  const [onlyMonth, setOnlyMonth] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState("");
+  const [suggestions, setSuggestions] = useState<CategorySuggestion[]>([]);
+
+  const targets = txns.filter((t) => needsCategory(t) && (!onlyMonth || t.date.startsWith(month)));
+  const byId = new Map(txns.map((t) => [t.id, t]));
+  // 提案後に手で直された明細は外す
+  const pending = suggestions.filter((s) => byId.has(s.txnId) && needsCategory(byId.get(s.txnId)!));
+  const confident = pending.filter((s) => s.confidence >= LOW_CONFIDENCE);
+
+  async function run() {
+    if (!targets.length) return;
+    try {
+      setBusy(true);
+      setProgress(`0 / ${targets.length}`);
+      const result = await requestCategorySuggestions(targets, categories, storeOf, (done, total) => setProgress(`${done} / ${total}`));
+      setSuggestions(result);
+      if (!result.length) alert("提案できるカテゴリはありませんでした。");
+    } catch (e: any) {
+      const label = e instanceof AiError ? `${AI_ERROR_LABELS[e.code]}（${e.message}）` : e?.message ?? String(e);
+      alert(`AI分類でエラー: ${label}`);
+    } finally {
+      setBusy(false);
+      setProgress("");
+    }
+  }
+
+  function accept(list: CategorySuggestion[]) {
+    onApply(list.map((s) => ({ txnId: s.txnId, category: s.category })));
+    const done = new Set(list.map((s) => s.txnId));
+    setSuggestions((prev) => prev.filter((s) => !done.has(s.txnId)));
+  }
+  function reject(list: CategorySuggestion[]) {
+    const done = new Set(list.map((s) => s.txnId));
+    setSuggestions((prev) => prev.filter((s) => !done.has(s.txnId)));
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AIでカテゴリを分類</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={onlyMonth} onChange={(e) => setOnlyMonth(e.target.checked)} />
+            {month} のみ
+          </label>
+          <Button onClick={run} disabled={busy || !targets.length}>
+            {busy ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Tags className="mr-2 h-4 w-4" />}
+            未分類・その他 {targets.length}件を分類
+          </Button>
+          {busy && <span className="text-sm text-slate-500">{progress}</span>}
+        </div>
+
+        {pending.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="sm" onClick={() => accept(confident)} disabled={!confident.length}>
+                <Check className="mr-1 h-4 w-4" />確信度の高い{confident.length}件を承認
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => reject(pending)}>
+                <X className="mr-1 h-4 w-4" />すべて却下
+              </Button>
+              <span className="text-xs text-slate-500">
+                確信度 {Math.round(LOW_CONFIDENCE * 100)}% 未満は「要確認」として一括承認しません。
+              </span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="py-2 pr-2">日付</th>
+                    <th className="py-2 pr-2">メモ</th>
+                    <th className="py-2 pr-2 text-right">金額</th>
+                    <th className="py-2 pr-2">提案</th>
+                    <th className="py-2 pr-2">確信度</th>
+                    <th className="py-2 pr-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pending.map((s) => {
+                    const t = byId.get(s.txnId)!;
+                    const low = s.confidence < LOW_CONFIDENCE;
+                    return (
+                      <tr key={s.txnId} className={`border-b align-top ${low ? "bg-orange-50/50" : ""}`}>
+                        <td className="py-2 pr-2">{t.date}</td>
+                        <td className="py-2 pr-2">{t.memo}</td>
+                        <td className="py-2 pr-2 text-right">{prettyJPY(t.amount)}</td>
+                        <td className="py-2 pr-2">
+                          {t.category || "未分類"} → <b>{s.category}</b>
+                          {s.reason && <div className="text-xs text-slate-500">{s.reason}</div>}
+                        </td>
+                        <td className="py-2 pr-2 w-32">
+                          <div className="h-1.5 w-full rounded-full bg-slate-100">
+                            <div
+                              className={`h-1.5 rounded-full ${low ? "bg-orange-400" : "bg-emerald-500"}`}
+                              style={{ width: `${Math.round(s.confidence * 100)}%` }}
+                            />
+                          </div>
+                          <div className="text-xs text-slate-500">
+                            {Math.round(s.confidence * 100)}%{low && "（要確認）"}
+                          </div>
+                        </td>
+                        <td className="py-2 pr-2">
+                          <div className="flex justify-end gap-1">
+                            <Button size="sm" variant="outline" title="承認" onClick={() => accept([s])}><Check className="h-4 w-4" /></Button>
+                            <Button size="sm" variant="outline" title="却下" onClick={() => reject([s])}><X className="h-4 w-4" /></Button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
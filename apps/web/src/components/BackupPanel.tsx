@@ -0,0 +1,205 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, Upload } from "lucide-react";
+import {
+  type BackupData,
+  type BackupDiff,
+  BackupError,
+  type RestoreMode,
+  backupFilename,
+  createBackup,
+  diffBackup,
+  isEncryptedBackup,
+  parseBackup,
+  restoreBackup,
+  serializeBackup,
+} from "@/lib/backup";
+import type { RecordStore } from "@/lib/db";
+import { downloadBlob } from "@/lib/utils";
+
+const STORE_LABELS: Record<RecordStore, string> = { txns: "明細", receipts: "レシート", trash: "ゴミ箱" };
+
+const SETTING_LABELS: Record<string, string> = {
+  household: "世帯",
+  categories: "カテゴリ",
+  budget: "月予算",
+  categoryBudgets: "カテゴリ別予算",
+  recurring: "定期ルール",
+  rules: "自動分類ルール",
+  subscriptionMarks: "サブスクの記録",
+  split: "割り勘の設定",
+  settlements: "精算の記録",
+  csvProfiles: "CSV取り込みの設定",
+  ocrEngine: "OCRエンジン",
+};
+
+// ====== バックアップ（JSON）の書き出しと復元 ======
+// ブラウザのデータを消すと家計簿も消えるので、定期的にファイルに書き出しておく
+export function BackupPanel() {
+  const [pass, setPass] = useState("");
+  const [pass2, setPass2] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [restorePass, setRestorePass] = useState("");
+  const [loaded, setLoaded] = useState<{ backup: BackupData; diff: BackupDiff } | null>(null);
+  const [error, setError] = useState("");
+
+  async function exportBackup() {
+    if (pass !== pass2) {
+      alert("確認用のパスフレーズが一致しません。");
+      return;
+    }
+    try {
+      setBusy(true);
+      const b = createBackup();
+      const text = await serializeBackup(b, pass || undefined);
+      downloadBlob(new Blob([text], { type: "application/json" }), backupFilename(b));
+      setPass("");
+      setPass2("");
+    } catch (e: any) {
+      alert(`書き出せませんでした: ${e?.message ?? String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function pickFile(f: File | undefined) {
+    setLoaded(null);
+    setError("");
+    setRestorePass("");
+    setFile(null);
+    if (!f) return;
+    // onChange からは待たずに呼ぶので、読めなかったときもここで受けてエラー表示にする
+    let text: string;
+    try {
+      text = await f.text();
+    } catch (e: any) {
+      setError(`ファイルを読み込めませんでした: ${e?.message ?? String(e)}`);
+      return;
+    }
+    setFile({ name: f.name, text });
+    if (!isEncryptedBackup(text)) await load(text, "");
+  }
+
+  async function load(text: string, passphrase: string) {
+    try {
+      setBusy(true);
+      setError("");
+      const backup = await parseBackup(text, passphrase || undefined);
+      setLoaded({ backup, diff: diffBackup(backup) });
+    } catch (e: any) {
+      setError(e instanceof BackupError ? e.message : `読み込めませんでした: ${e?.message ?? String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function restore(mode: RestoreMode) {
+    if (!loaded) return;
+    const txns = loaded.diff.records.txns;
+    const msg =
+      mode === "replace"
+        ? `手元のデータをバックアップの内容で置き換えます。${txns?.missing ? `\nバックアップにない明細 ${txns.missing}件はゴミ箱に移ります。` : ""}\nよろしいですか？`
+        : "バックアップの内容を手元のデータに足します（両方にある明細は新しい方を残します）。よろしいですか？";
+    if (!confirm(msg)) return;
+    restoreBackup(loaded.backup, mode);
+    setLoaded(null);
+    setFile(null);
+    alert("復元しました。");
+  }
+
+  return (
+    <Card>
+      <CardHeader><CardTitle>バックアップ（JSON）</CardTitle></CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p className="text-slate-600">
+          明細・レシート・予算・カテゴリ・各種設定をまとめて1つのファイルに保存します。ブラウザのデータを消すと家計簿も消えるので、ときどき書き出しておいてください。
+        </p>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div>
+              <Label>パスフレーズ（任意）</Label>
+              <Input type="password" value={pass} onChange={(e) => setPass(e.target.value)} placeholder="付けると暗号化します" />
+            </div>
+            <div>
+              <Label>パスフレーズ（確認）</Label>
+              <Input type="password" value={pass2} onChange={(e) => setPass2(e.target.value)} disabled={!pass} />
+            </div>
+          </div>
+          {pass && <p className="text-xs text-orange-700">パスフレーズを忘れると復元できません。</p>}
+          <Button onClick={exportBackup} disabled={busy}>
+            <Download className="mr-2 h-4 w-4" />バックアップを書き出す
+          </Button>
+        </div>
+
+        <div className="space-y-2 border-t pt-4">
+          <Label>バックアップから復元</Label>
+          <Input type="file" accept="application/json,.json" onChange={(e) => void pickFile(e.target.files?.[0])} />
+          {file && isEncryptedBackup(file.text) && !loaded && (
+            <div className="flex gap-2">
+              <Input type="password" value={restorePass} onChange={(e) => setRestorePass(e.target.value)} placeholder="パスフレーズ" />
+              <Button variant="outline" onClick={() => load(file.text, restorePass)} disabled={busy || !restorePass}>
+                <Upload className="mr-2 h-4 w-4" />読み込む
+              </Button>
+            </div>
+          )}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          {loaded && <DiffSummary backup={loaded.backup} diff={loaded.diff} onRestore={restore} />}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function DiffSummary({ backup, diff, onRestore }: { backup: BackupData; diff: BackupDiff; onRestore: (mode: RestoreMode) => void }) {
+  const label = (keys: string[]) => keys.map((k) => SETTING_LABELS[k] ?? k).join("・");
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="text-xs text-slate-500">
+        {new Date(backup.createdAt).toLocaleString("ja-JP")} のバックアップ（v{backup.version}）
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left border-b text-slate-500">
+            <th className="py-1 pr-2 font-normal"></th>
+            <th className="py-1 pr-2 font-normal text-right">追加</th>
+            <th className="py-1 pr-2 font-normal text-right">内容が違う</th>
+            <th className="py-1 pr-2 font-normal text-right">同じ</th>
+            <th className="py-1 pr-2 font-normal text-right">手元だけ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(diff.records) as RecordStore[]).map((name) => {
+            const d = diff.records[name]!;
+            return (
+              <tr key={name} className="border-b">
+                <td className="py-1 pr-2">{STORE_LABELS[name] ?? name}</td>
+                <td className="py-1 pr-2 text-right">{d.added}</td>
+                <td className="py-1 pr-2 text-right">{d.changed}</td>
+                <td className="py-1 pr-2 text-right">{d.same}</td>
+                <td className="py-1 pr-2 text-right">{d.missing}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="text-xs space-y-1">
+        {diff.settings.added.length > 0 && <div>手元にない設定: {label(diff.settings.added)}</div>}
+        {diff.settings.changed.length > 0 && <div>手元と違う設定（置き換えのときだけ反映）: {label(diff.settings.changed)}</div>}
+        {!diff.settings.added.length && !diff.settings.changed.length && <div>設定: 手元と同じ</div>}
+      </div>
+      <p className="text-xs text-slate-500">
+        マージ: 手元にない明細などを足します（設定は手元を残します）。置き換え: 手元をバックアップの内容にします（「手元だけ」の明細はゴミ箱に移ります）。
+      </p>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => onRestore("merge")}>マージ</Button>
+        <Button variant="destructive" onClick={() => onRestore("replace")}>置き換え</Button>
+      </div>
+    </div>
+  );
+}
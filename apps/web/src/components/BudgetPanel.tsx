@@ -0,0 +1,194 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Cell, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import {
+  type BudgetRow,
+  type BudgetStatus,
+  type Budgets,
+  setCategoryBudget,
+  setMonthBudget,
+} from "@/lib/budget";
+import { prettyJPY } from "@/lib/utils";
+
+export const BUDGET_STATUS_LABELS: Record<BudgetStatus, string> = {
+  ok: "順調",
+  trending: "超えそう",
+  over: "超過",
+};
+
+const STATUS_COLORS: Record<BudgetStatus, string> = {
+  ok: "bg-emerald-50 text-emerald-700",
+  trending: "bg-orange-50 text-orange-700",
+  over: "bg-red-50 text-red-700",
+};
+
+const BAR_COLORS: Record<BudgetStatus, string> = { ok: "#4E79A7", trending: "#EF6C00", over: "#D32F2F" };
+
+type Props = {
+  budgets: Budgets;
+  onChange: (b: Budgets) => void;
+  rows: BudgetRow[];
+  month: string;           // YYYY-MM
+  categories: string[];
+};
+
+// ====== カテゴリ別予算（予算対実績） ======
+export function BudgetPanel({ budgets, onChange, rows, month, categories }: Props) {
+  const [adding, setAdding] = useState("");
+  const unbudgeted = categories.filter((c) => !rows.some((r) => r.category === c));
+  const chartData = rows
+    .filter((r) => r.available > 0 || r.spent > 0)
+    .map((r) => ({ name: r.category, spent: r.spent, available: Math.max(0, r.available), status: r.status }));
+
+  function addCategory() {
+    if (!adding) return;
+    onChange(setCategoryBudget(budgets, adding, { amount: 10000 }, month));
+    setAdding("");
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>予算と実績（{month}）</CardTitle>
+          <div className="flex items-center gap-2">
+            <div className="w-40">
+              <Select value={adding} onValueChange={setAdding}>
+                <SelectTrigger><SelectValue placeholder="カテゴリを選択" /></SelectTrigger>
+                <SelectContent>
+                  {unbudgeted.map((c) => (<SelectItem key={c} value={c}>{c}</SelectItem>))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button size="sm" variant="outline" onClick={addCategory} disabled={!adding}>
+              <Plus className="mr-1 h-4 w-4" />予算を追加
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2 pr-2">カテゴリ</th>
+                  <th className="py-2 pr-2">毎月の予算</th>
+                  <th className="py-2 pr-2">この月だけ</th>
+                  <th className="py-2 pr-2">繰越</th>
+                  <th className="py-2 pr-2 text-right">使える額</th>
+                  <th className="py-2 pr-2 text-right">実績</th>
+                  <th className="py-2 pr-2 text-right">残り</th>
+                  <th className="py-2 pr-2">状況</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => {
+                  const cfg = budgets.categories[r.category];
+                  const override = budgets.months[month]?.[r.category];
+                  const ratio = r.available > 0 ? Math.min(1, r.spent / r.available) : r.spent > 0 ? 1 : 0;
+                  return (
+                    <tr key={r.category} className="border-b align-top">
+                      <td className="py-2 pr-2">{r.category}</td>
+                      <td className="py-1 pr-2 w-32">
+                        <Input
+                          type="number"
+                          value={cfg?.amount || ""}
+                          placeholder="0"
+                          onChange={(e) => onChange(setCategoryBudget(budgets, r.category, { amount: Number(e.target.value || 0) }, month))}
+                        />
+                      </td>
+                      <td className="py-1 pr-2 w-32">
+                        <Input
+                          type="number"
+                          value={override ?? ""}
+                          placeholder="既定"
+                          onChange={(e) => onChange(setMonthBudget(budgets, r.category, month, e.target.value === "" ? null : Number(e.target.value)))}
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <label className="flex items-center gap-1 whitespace-nowrap">
+                          <input
+                            type="checkbox"
+                            checked={!!cfg?.carryOver}
+                            onChange={(e) => onChange(setCategoryBudget(budgets, r.category, { carryOver: e.target.checked }, month))}
+                          />
+                          {r.carry !== 0 && (
+                            <span className={r.carry > 0 ? "text-emerald-600" : "text-red-600"}>
+                              {r.carry > 0 ? "+" : ""}{prettyJPY(r.carry)}
+                            </span>
+                          )}
+                        </label>
+                      </td>
+                      <td className="py-2 pr-2 text-right">{prettyJPY(r.available)}</td>
+                      <td className="py-2 pr-2 text-right">
+                        {prettyJPY(r.spent)}
+                        <div className="mt-1 h-1.5 w-full rounded-full bg-slate-100">
+                          <div
+                            className="h-1.5 rounded-full"
+                            style={{ width: `${Math.round(ratio * 100)}%`, background: BAR_COLORS[r.status] }}
+                          />
+                        </div>
+                      </td>
+                      <td className={`py-2 pr-2 text-right ${r.remaining < 0 ? "text-red-600" : ""}`}>{prettyJPY(r.remaining)}</td>
+                      <td className="py-2 pr-2">
+                        <span className={`rounded-full px-2 py-0.5 text-xs ${STATUS_COLORS[r.status]}`}>
+                          {BUDGET_STATUS_LABELS[r.status]}
+                        </span>
+                        {r.status === "trending" && (
+                          <div className="mt-1 text-xs text-slate-500">見込み {prettyJPY(r.projected)}</div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {rows.length === 0 && (
+                  <tr>
+                    <td className="py-6 text-center text-slate-500" colSpan={8}>予算が未設定です。右上からカテゴリを選んで追加してください。</td>
+                  </tr>
+                )}
+              </tbody>
+              {rows.length > 0 && (
+                <tfoot>
+                  <tr className="font-semibold">
+                    <td className="py-2 pr-2" colSpan={4}>合計</td>
+                    <td className="py-2 pr-2 text-right">{prettyJPY(rows.reduce((s, r) => s + r.available, 0))}</td>
+                    <td className="py-2 pr-2 text-right">{prettyJPY(rows.reduce((s, r) => s + r.spent, 0))}</td>
+                    <td className="py-2 pr-2 text-right">{prettyJPY(rows.reduce((s, r) => s + r.remaining, 0))}</td>
+                    <td></td>
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* カテゴリ別の進捗（横棒: 実績 / 予算） */}
+      {chartData.length > 0 && (
+        <Card>
+          <CardHeader><CardTitle>カテゴリ別の予算進捗</CardTitle></CardHeader>
+          <CardContent style={{ height: Math.max(160, chartData.length * 44) }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} layout="vertical" margin={{ left: 24 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" />
+                <YAxis type="category" dataKey="name" width={90} />
+                <Tooltip formatter={(v: any) => prettyJPY(Number(v))} />
+                <Legend />
+                <Bar dataKey="available" name="予算" fill="#CBD5E1" />
+                <Bar dataKey="spent" name="実績" fill="#4E79A7">
+                  {chartData.map((d) => (
+                    <Cell key={d.name} fill={BAR_COLORS[d.status]} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
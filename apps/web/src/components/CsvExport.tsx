@@ -0,0 +1,127 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileDown } from "lucide-react";
+import type { Txn } from "@/lib/types";
+import { type Household, payerName } from "@/lib/household";
+import { EXPORT_COLUMNS, type ExportColumn, type ExportEncoding, encodeCSV, toCSV, txnsToRows } from "@/lib/csv";
+import { downloadBlob } from "@/lib/utils";
+import { monthRange } from "@/lib/settlement";
+
+type Scope = "all" | "month" | "range" | "list";
+
+const SCOPE_LABELS: Record<Scope, string> = {
+  all: "すべて",
+  month: "対象月",
+  range: "日付範囲",
+  list: "明細一覧の表示中の条件",
+};
+
+const ENCODING_LABELS: Record<ExportEncoding, string> = {
+  "utf-8-bom": "UTF-8（BOM付き・Excel向け）",
+  shift_jis: "Shift_JIS（古いExcel向け）",
+};
+
+type Props = {
+  txns: Txn[];
+  listTxns: Txn[];         // 明細一覧に表示中の明細
+  month: string;
+  household: Household;
+  setOpen?: (v: boolean) => void; // DialogContent から渡される
+};
+
+// ====== CSV 書き出し（範囲・列・文字コードを選択） ======
+export function CsvExport({ txns, listTxns, month, household, setOpen }: Props) {
+  const [scope, setScope] = useState<Scope>("all");
+  const [range, setRange] = useState(() => monthRange(month));
+  const [encoding, setEncoding] = useState<ExportEncoding>("utf-8-bom");
+  const [columns, setColumns] = useState<ExportColumn[]>(EXPORT_COLUMNS.map((c) => c.key));
+
+  const target = (() => {
+    switch (scope) {
+      case "month": return txns.filter((t) => t.date.slice(0, 7) === month);
+      case "range": return txns.filter((t) => t.date >= range.from && t.date <= range.to);
+      case "list": return listTxns;
+      default: return txns;
+    }
+  })();
+
+  function toggle(key: ExportColumn) {
+    setColumns((cur) => {
+      const next = cur.includes(key) ? cur.filter((c) => c !== key) : [...cur, key];
+      // 列順は定義順に揃える
+      return EXPORT_COLUMNS.map((c) => c.key).filter((k) => next.includes(k));
+    });
+  }
+
+  function exportNow() {
+    if (!columns.length) return;
+    const sorted = [...target].sort((a, b) => a.date.localeCompare(b.date));
+    const csv = toCSV(txnsToRows(sorted, columns, (id) => payerName(household, id)));
+    const { blob, unmappable } = encodeCSV(csv, encoding);
+    if (unmappable > 0 && !window.confirm(`Shift_JIS で表せない文字が ${unmappable} 個あり「?」に置き換わります。書き出しますか？`)) return;
+    const suffix = scope === "month" ? month : scope === "range" ? `${range.from}_${range.to}` : new Date().toISOString().slice(0, 10);
+    downloadBlob(blob, `kakeibo_${suffix}.csv`);
+    setOpen?.(false);
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <Label>範囲</Label>
+          <Select value={scope} onValueChange={(v) => setScope(v as Scope)}>
+            <SelectTrigger><SelectValue>{SCOPE_LABELS[scope]}{scope === "month" && `（${month}）`}</SelectValue></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SCOPE_LABELS) as Scope[]).map((s) => (<SelectItem key={s} value={s}>{SCOPE_LABELS[s]}</SelectItem>))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>文字コード</Label>
+          <Select value={encoding} onValueChange={(v) => setEncoding(v as ExportEncoding)}>
+            <SelectTrigger><SelectValue>{ENCODING_LABELS[encoding]}</SelectValue></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ENCODING_LABELS) as ExportEncoding[]).map((e) => (<SelectItem key={e} value={e}>{ENCODING_LABELS[e]}</SelectItem>))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {scope === "range" && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label>開始</Label>
+            <Input type="date" value={range.from} onChange={(e) => setRange((r) => ({ ...r, from: e.target.value }))} />
+          </div>
+          <div>
+            <Label>終了</Label>
+            <Input type="date" value={range.to} onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))} />
+          </div>
+        </div>
+      )}
+
+      <div>
+        <Label>列</Label>
+        <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+          {EXPORT_COLUMNS.map((c) => (
+            <label key={c.key} className="flex items-center gap-1 text-sm text-slate-600">
+              <input type="checkbox" checked={columns.includes(c.key)} onChange={() => toggle(c.key)} />
+              {c.label}
+            </label>
+          ))}
+        </div>
+        <p className="mt-1 text-xs text-slate-500">すべての列を書き出すと「明細CSVを取り込む」からそのまま復元できます。</p>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-600">{target.length}件</span>
+        <Button onClick={exportNow} disabled={!columns.length || !target.length}>
+          <FileDown className="mr-2 h-4 w-4" />書き出す
+        </Button>
+      </div>
+    </div>
+  );
+}
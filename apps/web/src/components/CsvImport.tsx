@@ -0,0 +1,330 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save, Upload } from "lucide-react";
+import type { Txn } from "@/lib/types";
+import { type Household, payerName, payerOptions, resolvePayer } from "@/lib/household";
+import {
+  BUILTIN_PROFILES,
+  type CsvColumns,
+  type CsvEncoding,
+  type CsvProfile,
+  applyProfile,
+  decodeCsvBytes,
+  findHeaderRow,
+  guessColumns,
+  isNativeCSV,
+  parseCSV,
+  parseCSVWithLines,
+  parseNativeCSV,
+} from "@/lib/csv";
+import { dupKey, prettyJPY, randomId } from "@/lib/utils";
+
+const ENCODING_LABELS: Record<CsvEncoding, string> = {
+  auto: "自動判定",
+  "utf-8": "UTF-8",
+  shift_jis: "Shift_JIS",
+};
+
+const COLUMN_LABELS: Array<[keyof CsvColumns, string, boolean]> = [
+  ["date", "日付", true],
+  ["memo", "摘要/メモ", true],
+  ["amount", "金額（符号付き）", false],
+  ["withdrawal", "出金（支出）", false],
+  ["deposit", "入金（収入）", false],
+  ["category", "カテゴリ", false],
+];
+
+const NONE = "-1";
+const PREVIEW_LIMIT = 200;
+
+type Props = {
+  household: Household;
+  categories: string[];
+  existing: Txn[];                               // 重複プレビュー用
+  profiles: CsvProfile[];                        // 保存済みプロファイル
+  onSaveProfile: (p: CsvProfile) => void;
+  onImport: (txns: Txn[]) => void;
+  onRestore: (txns: Txn[]) => void;              // アプリ形式の CSV（ID 単位で上書き/追加）
+  defaultPayer: string;
+};
+
+// ====== 銀行・カード明細 CSV の取り込み ======
+export function CsvImport({ household, categories, existing, profiles, onSaveProfile, onImport, onRestore, defaultPayer }: Props) {
+  const [fileName, setFileName] = useState("");
+  const [bytes, setBytes] = useState<ArrayBuffer | null>(null);
+  const [profile, setProfile] = useState<CsvProfile | null>(null);
+  const [native, setNative] = useState<Txn[] | null>(null);
+  const [profileName, setProfileName] = useState("");
+
+  const allProfiles = [...BUILTIN_PROFILES, ...profiles];
+
+  const { rows, lines } = useMemo(
+    () => (bytes && profile ? parseCSVWithLines(decodeCsvBytes(bytes, profile.encoding)) : { rows: [], lines: [] }),
+    [bytes, profile]
+  );
+  const header = profile?.hasHeader ? rows[profile.skipRows] ?? [] : [];
+  const width = rows.reduce((w, r) => Math.max(w, r.length), 0);
+  const columnName = (i: number) => (header[i]?.trim() ? `${i + 1}: ${header[i].trim()}` : `${i + 1}列目`);
+
+  const results = useMemo(
+    () => (profile ? applyProfile(rows, lines, profile, { payer: defaultPayer, category: "その他" }) : []),
+    [rows, lines, profile, defaultPayer]
+  );
+  const existingKeys = useMemo(() => new Set(existing.map(dupKey)), [existing]);
+  const ok = results.flatMap((r) => (r.txn ? [r.txn] : []));
+  const dupCount = ok.filter((t) => existingKeys.has(dupKey(t))).length;
+  const errors = results.filter((r) => !r.txn);
+
+  async function pickFile(f: File) {
+    // 前のファイルの復元パネルやマッピングを残さない
+    reset();
+    try {
+      const buf = await f.arrayBuffer();
+      const parsed = parseCSV(decodeCsvBytes(buf, "auto"));
+      setFileName(f.name);
+      // このアプリで書き出した CSV ならマッピング不要でそのまま復元する
+      if (parsed.length && isNativeCSV(parsed[0])) {
+        setNative(parseNativeCSV(parsed, (raw) => resolvePayer(household, raw), defaultPayer));
+        return;
+      }
+      setBytes(buf);
+      // 見出しから列を推定できれば自動プロファイル、だめなら手動マッピングから始める
+      const h = findHeaderRow(parsed);
+      const guessed = h >= 0 ? guessColumns(parsed[h]) : null;
+      setProfile({
+        id: "",
+        name: "",
+        encoding: "auto",
+        skipRows: Math.max(0, h),
+        hasHeader: h >= 0,
+        columns: guessed ?? { date: 0, memo: 1, amount: 2 },
+        sign: "expense-positive",
+      });
+    } catch (e: any) {
+      alert(`CSVを読み込めませんでした: ${e?.message ?? String(e)}`);
+    }
+  }
+
+  function patch(p: Partial<CsvProfile>) {
+    setProfile((cur) => (cur ? { ...cur, ...p } : cur));
+  }
+  function setColumn(key: keyof CsvColumns, v: string) {
+    if (!profile) return;
+    const columns = { ...profile.columns };
+    if (v === NONE) delete columns[key];
+    else columns[key] = Number(v);
+    patch({ columns });
+  }
+
+  function saveProfile() {
+    if (!profile) return;
+    const name = profileName.trim();
+    if (!name) {
+      alert("プロファイル名を入力してください。");
+      return;
+    }
+    const saved: CsvProfile = { ...profile, id: profile.builtin || !profile.id ? randomId() : profile.id, name, builtin: false };
+    onSaveProfile(saved);
+    setProfile(saved);
+  }
+
+  function reset() {
+    setBytes(null);
+    setProfile(null);
+    setNative(null);
+    setFileName("");
+  }
+
+  function commit() {
+    if (!ok.length) return;
+    onImport(ok);
+    reset();
+  }
+
+  const existingIds = useMemo(() => new Set(existing.map((t) => t.id)), [existing]);
+  const overwriteCount = native ? native.filter((t) => existingIds.has(t.id)).length : 0;
+
+  return (
+    <Card>
+      <CardHeader><CardTitle>明細CSVを取り込む（銀行・カード）</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="inline-flex cursor-pointer items-center rounded-2xl border border-slate-300 px-3 py-2 hover:bg-slate-100">
+            <Upload className="mr-2 h-4 w-4" />CSVファイルを選択
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={async (e) => {
+                // await の後は currentTarget が null になるので先に掴んでおく（同じファイルを選び直せるよう空にする）
+                const input = e.currentTarget;
+                const f = input.files?.[0];
+                if (f) await pickFile(f);
+                input.value = "";
+              }}
+            />
+          </label>
+          {fileName && <span className="text-sm text-slate-600">{fileName}</span>}
+        </div>
+
+        {native && (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-600">
+              このアプリで書き出したCSVです。{native.length}件（新規 {native.length - overwriteCount}件 / 同じIDの明細を上書き {overwriteCount}件）
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={reset}>キャンセル</Button>
+              <Button onClick={() => { onRestore(native); reset(); }} disabled={!native.length}>復元する</Button>
+            </div>
+          </div>
+        )}
+
+        {profile && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div>
+                <Label>プロファイル</Label>
+                <Select value={profile.id || "__current"} onValueChange={(v) => {
+                  const p = allProfiles.find((x) => x.id === v);
+                  if (p) {
+                    setProfile({ ...p });
+                    setProfileName(p.builtin ? "" : p.name);
+                  }
+                }}>
+                  <SelectTrigger><SelectValue>{profile.name || "自動判定 / 手動"}</SelectValue></SelectTrigger>
+                  <SelectContent>
+                    {allProfiles.map((p) => (<SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>文字コード</Label>
+                <Select value={profile.encoding} onValueChange={(v) => patch({ encoding: v as CsvEncoding })}>
+                  <SelectTrigger><SelectValue>{ENCODING_LABELS[profile.encoding]}</SelectValue></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ENCODING_LABELS) as CsvEncoding[]).map((e) => (<SelectItem key={e} value={e}>{ENCODING_LABELS[e]}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>読み飛ばす行数</Label>
+                <Input type="number" min={0} value={profile.skipRows} onChange={(e) => patch({ skipRows: Math.max(0, Number(e.target.value || 0)) })} />
+              </div>
+              <label className="flex items-end gap-2 pb-2 text-sm text-slate-600">
+                <input type="checkbox" checked={profile.hasHeader} onChange={(e) => patch({ hasHeader: e.target.checked })} />
+                1行目は見出し
+              </label>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+              {COLUMN_LABELS.map(([key, label, required]) => (
+                <div key={key}>
+                  <Label>{label}{required && " *"}</Label>
+                  <Select value={String(profile.columns[key] ?? NONE)} onValueChange={(v) => setColumn(key, v)}>
+                    <SelectTrigger>
+                      <SelectValue>{profile.columns[key] == null ? "（なし）" : columnName(profile.columns[key]!)}</SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      {!required && <SelectItem value={NONE}>（なし）</SelectItem>}
+                      {Array.from({ length: width }, (_, i) => (<SelectItem key={i} value={String(i)}>{columnName(i)}</SelectItem>))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div>
+                <Label>金額の符号</Label>
+                <Select value={profile.sign} onValueChange={(v) => patch({ sign: v as CsvProfile["sign"] })}>
+                  <SelectTrigger><SelectValue>{profile.sign === "expense-positive" ? "正の値が支出" : "負の値が支出"}</SelectValue></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense-positive">正の値が支出</SelectItem>
+                    <SelectItem value="expense-negative">負の値が支出</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>支払者</Label>
+                <Select value={profile.payer || defaultPayer} onValueChange={(v) => patch({ payer: v })}>
+                  <SelectTrigger><SelectValue>{payerName(household, profile.payer || defaultPayer)}</SelectValue></SelectTrigger>
+                  <SelectContent>
+                    {payerOptions(household, profile.payer).map((p) => (<SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>既定カテゴリ</Label>
+                <Select value={profile.category || "その他"} onValueChange={(v) => patch({ category: v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {categories.map((c) => (<SelectItem key={c} value={c}>{c}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>プロファイルとして保存</Label>
+                <div className="flex gap-2">
+                  <Input value={profileName} onChange={(e) => setProfileName(e.target.value)} placeholder="例：○○銀行 普通預金" />
+                  <Button variant="outline" onClick={saveProfile}><Save className="h-4 w-4" /></Button>
+                </div>
+              </div>
+            </div>
+
+            <div className="text-sm text-slate-600">
+              読み取り {ok.length}件（重複の可能性 {dupCount}件）
+              {errors.length > 0 && <span className="ml-2 text-orange-600">読めない行 {errors.length}件</span>}
+            </div>
+
+            <div className="max-h-80 overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="py-2 pr-2">行</th>
+                    <th className="py-2 pr-2">日付</th>
+                    <th className="py-2 pr-2">メモ</th>
+                    <th className="py-2 pr-2">カテゴリ</th>
+                    <th className="py-2 pr-2 text-right">金額</th>
+                    <th className="py-2 pr-2">収支</th>
+                    <th className="py-2 pr-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.slice(0, PREVIEW_LIMIT).map((r) => r.txn ? (
+                    <tr key={r.line} className="border-b">
+                      <td className="py-1 pr-2 text-slate-400">{r.line}</td>
+                      <td className="py-1 pr-2">{r.txn.date}</td>
+                      <td className="py-1 pr-2">{r.txn.memo}</td>
+                      <td className="py-1 pr-2">{r.txn.category}</td>
+                      <td className="py-1 pr-2 text-right">{prettyJPY(r.txn.amount)}</td>
+                      <td className="py-1 pr-2">{r.txn.kind === "income" ? "収入" : "支出"}</td>
+                      <td className="py-1 pr-2 text-xs text-orange-600">{existingKeys.has(dupKey(r.txn)) ? "重複?" : ""}</td>
+                    </tr>
+                  ) : (
+                    <tr key={r.line} className="border-b text-slate-400">
+                      <td className="py-1 pr-2">{r.line}</td>
+                      <td className="py-1 pr-2" colSpan={5}>{r.cells.join(" | ")}</td>
+                      <td className="py-1 pr-2 text-xs">{r.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {results.length > PREVIEW_LIMIT && (
+                <p className="mt-2 text-xs text-slate-500">先頭 {PREVIEW_LIMIT} 行のみ表示しています（取り込みは全行）。</p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={reset}>キャンセル</Button>
+              <Button onClick={commit} disabled={!ok.length}>{ok.length}件を取り込む</Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
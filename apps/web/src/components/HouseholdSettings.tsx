@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus } from "lucide-react";
+import {
+  type Household,
+  SHARED_PAYER_ID,
+  SHARED_PAYER_NAME,
+  payerName,
+  payerOptions,
+} from "@/lib/household";
+import { randomId } from "@/lib/utils";
+
+type Props = {
+  household: Household;
+  onChange: (h: Household) => void;
+  usage: Record<string, number>; // Member.id → 明細件数
+};
+
+// ====== 世帯設定（メンバーの追加・改名・無効化、既定の支払者） ======
+export function HouseholdSettings({ household, onChange, usage }: Props) {
+  const [newName, setNewName] = useState("");
+
+  const names = new Set([SHARED_PAYER_NAME, ...household.members.map((m) => m.name)]);
+
+  function addMember() {
+    const name = newName.trim();
+    if (!name) return;
+    if (names.has(name)) {
+      alert(`「${name}」は既に登録されています。`);
+      return;
+    }
+    onChange({ ...household, members: [...household.members, { id: `m_${randomId()}`, name, active: true }] });
+    setNewName("");
+  }
+
+  /** 改名。共同・他のメンバーと同じ名前は追加と同じく受け付けない（false を返す） */
+  function rename(id: string, name: string): boolean {
+    const current = household.members.find((m) => m.id === id);
+    if (!current || current.name === name) return true;
+    if (name === SHARED_PAYER_NAME || household.members.some((m) => m.id !== id && m.name === name)) {
+      alert(`「${name}」は既に登録されています。`);
+      return false;
+    }
+    onChange({ ...household, members: household.members.map((m) => (m.id === id ? { ...m, name } : m)) });
+    return true;
+  }
+
+  function toggleActive(id: string) {
+    const members = household.members.map((m) => (m.id === id ? { ...m, active: !m.active } : m));
+    // 既定の支払者を無効化したら共同に戻す
+    const target = members.find((m) => m.id === id);
+    const defaultPayer = target && !target.active && household.defaultPayer === id ? SHARED_PAYER_ID : household.defaultPayer;
+    onChange({ ...household, members, defaultPayer });
+  }
+
+  return (
+    <Card>
+      <CardHeader><CardTitle>世帯メンバー</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2 pr-2">名前</th>
+              <th className="py-2 pr-2 text-right">明細数</th>
+              <th className="py-2 pr-2">状態</th>
+              <th className="py-2 pr-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b">
+              <td className="py-2 pr-2">{SHARED_PAYER_NAME}<span className="ml-2 text-xs text-slate-500">（共同財布）</span></td>
+              <td className="py-2 pr-2 text-right">{usage[SHARED_PAYER_ID] || 0}</td>
+              <td className="py-2 pr-2">有効</td>
+              <td className="py-2 pr-2"></td>
+            </tr>
+            {household.members.map((m) => (
+              <tr key={m.id} className="border-b">
+                <td className="py-2 pr-2">
+                  <MemberNameInput name={m.name} onCommit={(name) => rename(m.id, name)} />
+                </td>
+                <td className="py-2 pr-2 text-right">{usage[m.id] || 0}</td>
+                <td className="py-2 pr-2">{m.active ? "有効" : <span className="text-slate-400">無効</span>}</td>
+                <td className="py-2 pr-2 text-right">
+                  <Button size="sm" variant="outline" onClick={() => toggleActive(m.id)}>
+                    {m.active ? "無効化" : "有効化"}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Label>メンバーを追加</Label>
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") addMember(); }}
+              placeholder="例：ゆう"
+            />
+          </div>
+          <Button onClick={addMember}><Plus className="mr-2 h-4 w-4" />追加</Button>
+        </div>
+
+        <div className="max-w-xs">
+          <Label>既定の支払者</Label>
+          <Select value={household.defaultPayer} onValueChange={(v) => onChange({ ...household, defaultPayer: v })}>
+            <SelectTrigger><SelectValue placeholder={SHARED_PAYER_NAME}>{payerName(household, household.defaultPayer)}</SelectValue></SelectTrigger>
+            <SelectContent>
+              {payerOptions(household).map((p) => (<SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>))}
+            </SelectContent>
+          </Select>
+          <p className="mt-1 text-xs text-slate-500">手入力・レシートOCRで支払者が不明なときに使われます。</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// 名前は入力中には確定せず、フォーカスが外れたとき（Enter でも）にまとめて改名する。
+// 打っている途中で他のメンバーと同じ名前になっても止めないように。受け付けなければ元の名前に戻す
+function MemberNameInput({ name, onCommit }: { name: string; onCommit: (name: string) => boolean }) {
+  const [draft, setDraft] = useState(name);
+  useEffect(() => setDraft(name), [name]);
+
+  function commit() {
+    const next = draft.trim() || "（名前なし）";
+    if (onCommit(next)) setDraft(next);
+    else setDraft(name);
+  }
+
+  return (
+    <Input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === "Enter" && !e.nativeEvent.isComposing) e.currentTarget.blur(); }}
+    />
+  );
+}
@@ -0,0 +1,65 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { RefreshCw, X } from "lucide-react";
+import { OCR_ENGINE_LABELS } from "@/lib/ocr";
+import { QUEUE_STATUS_LABELS, type QueueItem, type QueueStatus } from "@/lib/ocrQueue";
+
+const STATUS_COLORS: Record<QueueStatus, string> = {
+  pending: "bg-slate-100 text-slate-600",
+  processing: "bg-blue-50 text-blue-700",
+  done: "bg-emerald-50 text-emerald-700",
+  failed: "bg-red-50 text-red-700",
+  retry: "bg-orange-50 text-orange-700",
+};
+
+type Props = {
+  items: QueueItem[];
+  onRetry: (id: string, engine?: QueueItem["engine"]) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+};
+
+// ====== OCR キューの状態一覧 ======
+export function OcrQueueList({ items, onRetry, onRemove, onClearFinished }: Props) {
+  if (!items.length) return null;
+  const done = items.filter((i) => i.status === "done").length;
+  const failed = items.filter((i) => i.status === "failed").length;
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex items-center justify-between text-sm text-slate-600">
+        <span>{items.length}枚中 完了 {done}枚{failed > 0 && ` / 失敗 ${failed}枚`}</span>
+        <Button size="sm" variant="outline" onClick={onClearFinished}>完了・失敗を片付ける</Button>
+      </div>
+      <ul className="divide-y rounded-xl border border-slate-200 text-sm">
+        {items.map((i) => (
+          <li key={i.id} className="flex items-center gap-2 px-3 py-2">
+            <span className={`rounded-full px-2 py-0.5 text-xs ${STATUS_COLORS[i.status]}`}>
+              {i.status === "processing" && <RefreshCw className="mr-1 inline h-3 w-3 animate-spin" />}
+              {QUEUE_STATUS_LABELS[i.status]}
+            </span>
+            <span className="flex-1 truncate">{i.file.name}</span>
+            <span className="text-xs text-slate-500">
+              {i.status === "processing" && (i.progress || OCR_ENGINE_LABELS[i.engine])}
+              {i.status === "done" && `${i.found ?? 0}件`}
+              {(i.status === "failed" || i.status === "retry") && i.error}
+            </span>
+            {i.status === "failed" && (
+              <>
+                <Button size="sm" variant="outline" onClick={() => onRetry(i.id)}>再試行</Button>
+                {i.engine !== "local" && (
+                  <Button size="sm" variant="outline" onClick={() => onRetry(i.id, "local")}>ローカルで再試行</Button>
+                )}
+              </>
+            )}
+            {i.status !== "processing" && (
+              <button aria-label="キューから外す" className="text-slate-400 hover:text-slate-700" onClick={() => onRemove(i.id)}>
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
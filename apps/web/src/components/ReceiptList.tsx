@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, ChevronDown, ChevronRight, Trash2 } from "lucide-react";
+import type { Txn } from "@/lib/types";
+import { type Household, payerName } from "@/lib/household";
+import { type Receipt, checkSavedReceipt } from "@/lib/receipt";
+import { prettyJPY } from "@/lib/utils";
+
+type Props = {
+  receipts: Receipt[];
+  txns: Txn[];
+  household: Household;
+  month: string;           // YYYY-MM
+  onDelete: (id: string) => void;
+};
+
+// ====== 保存済みレシート一覧 ======
+export function ReceiptList({ receipts, txns, household, month, onDelete }: Props) {
+  const [open, setOpen] = useState<string | null>(null);
+  const list = receipts
+    .filter((r) => r.date.startsWith(month))
+    .sort((a, b) => (b.date + b.time).localeCompare(a.date + a.time));
+  if (!list.length) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>レシート（{month}）</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2 pr-2"></th>
+                <th className="py-2 pr-2">日時</th>
+                <th className="py-2 pr-2">店名</th>
+                <th className="py-2 pr-2">支払方法</th>
+                <th className="py-2 pr-2 text-right">合計</th>
+                <th className="py-2 pr-2 text-right">明細合計</th>
+                <th className="py-2 pr-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {list.map((r) => {
+                const lines = txns.filter((t) => t.receiptId === r.id);
+                const check = checkSavedReceipt(r, txns);
+                const expanded = open === r.id;
+                return (
+                  <React.Fragment key={r.id}>
+                    <tr className="border-b hover:bg-slate-50 cursor-pointer" onClick={() => setOpen(expanded ? null : r.id)}>
+                      <td className="py-2 pr-2">
+                        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </td>
+                      <td className="py-2 pr-2">{r.date}{r.time && ` ${r.time}`}</td>
+                      <td className="py-2 pr-2">{r.storeName || "（店名不明）"}</td>
+                      <td className="py-2 pr-2">{r.paymentMethod || "-"}</td>
+                      <td className="py-2 pr-2 text-right">{r.total != null ? prettyJPY(r.total) : "-"}</td>
+                      <td className={`py-2 pr-2 text-right ${check.status === "mismatch" ? "text-orange-600" : ""}`}>
+                        {check.status === "mismatch" && (
+                          <AlertTriangle className="mr-1 inline h-4 w-4" aria-label={`差額 ${prettyJPY(check.diff)}`} />
+                        )}
+                        {prettyJPY(check.itemsTotal)}（{lines.length}件）
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (confirm(`レシートと紐づく明細 ${lines.length}件を削除します。よろしいですか？`)) onDelete(r.id);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                    {expanded && (
+                      <tr className="border-b bg-slate-50">
+                        <td></td>
+                        <td className="py-2 pr-2" colSpan={6}>
+                          <ul className="space-y-1">
+                            {lines.map((t) => (
+                              <li key={t.id} className="flex justify-between gap-4">
+                                <span>{t.memo}<span className="ml-2 text-xs text-slate-500">{t.category} / {payerName(household, t.payer)}</span></span>
+                                <span>{prettyJPY(t.amount)}</span>
+                              </li>
+                            ))}
+                            {r.discounts.map((d, i) => (
+                              <li key={`d${i}`} className="flex justify-between gap-4 text-slate-500">
+                                <span>{d.label}</span>
+                                <span>-{prettyJPY(d.amount)}</span>
+                              </li>
+                            ))}
+                            {(r.tax8 != null || r.tax10 != null) && (
+                              <li className="text-xs text-slate-500">
+                                {r.tax8 != null && `消費税8% ${prettyJPY(r.tax8)}`}
+                                {r.tax8 != null && r.tax10 != null && " / "}
+                                {r.tax10 != null && `消費税10% ${prettyJPY(r.tax10)}`}
+                              </li>
+                            )}
+                            {check.status === "mismatch" && (
+                              <li className="text-orange-600">
+                                レシートの合計と {prettyJPY(Math.abs(check.diff))} 合いません。
+                              </li>
+                            )}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,294 @@
+import React, { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Check, Combine, Split, X } from "lucide-react";
+import type { Txn } from "@/lib/types";
+import { type Household, payerName, payerOptions } from "@/lib/household";
+import {
+  type StagedLine,
+  type StagedReceipt,
+  findDuplicateLines,
+  hasMixedTaxRates,
+  includedLines,
+  mergeSelected,
+  reallocate,
+  splitLine,
+  stagedToRecords,
+} from "@/lib/staging";
+import {
+  PAYMENT_METHODS,
+  type Receipt,
+  type ReceiptMeta,
+  TAX_MODE_LABELS,
+  type TaxMode,
+  checkReceiptTotal,
+} from "@/lib/receipt";
+import { prettyJPY } from "@/lib/utils";
+
+type Props = {
+  receipts: StagedReceipt[];
+  onChange: (receipts: StagedReceipt[]) => void;
+  existing: Txn[];
+  household: Household;
+  categories: string[];
+  onCommit: (records: { receipts: Receipt[]; txns: Txn[] }) => void;
+  onDiscard: () => void;
+};
+
+// ====== OCR 結果の確認・修正（保存前） ======
+export function ReceiptReview({ receipts, onChange, existing, household, categories, onCommit, onDiscard }: Props) {
+  const dups = useMemo(() => findDuplicateLines(receipts, existing), [receipts, existing]);
+  const toSave = receipts.flatMap(includedLines);
+
+  function updateReceipt(id: string, fn: (lines: StagedLine[]) => StagedLine[]) {
+    onChange(receipts.map((r) => (r.id === id ? { ...r, lines: fn(r.lines) } : r)));
+  }
+  function updateLine(receiptId: string, lineId: string, patch: Partial<StagedLine>) {
+    updateReceipt(receiptId, (lines) => lines.map((l) => (l.id === lineId ? { ...l, ...patch } : l)));
+  }
+  /** 除外・税率の変更は値引・外税の配分をやり直す */
+  function updateLineAndReallocate(receiptId: string, lineId: string, patch: Partial<StagedLine>) {
+    onChange(receipts.map((r) =>
+      r.id === receiptId
+        ? reallocate({ ...r, lines: r.lines.map((l) => (l.id === lineId ? { ...l, ...patch } : l)) })
+        : r
+    ));
+  }
+  function merge(r: StagedReceipt) {
+    if (hasMixedTaxRates(r.lines)) {
+      alert("税率（8% / 10%）の違う行は結合できません。税率をそろえてから結合してください。");
+      return;
+    }
+    onChange(receipts.map((x) => (x.id === r.id ? mergeSelected(x) : x)));
+  }
+  function updateMeta(id: string, patch: Partial<ReceiptMeta>) {
+    onChange(receipts.map((r) => {
+      if (r.id !== id) return r;
+      // 購入日を変えたら、同じ日付だった明細もそろえる
+      const lines = patch.date
+        ? r.lines.map((l) => (l.date === r.meta.date ? { ...l, date: patch.date! } : l))
+        : r.lines;
+      const next = { ...r, meta: { ...r.meta, ...patch }, lines };
+      const affectsAllocation = "taxMode" in patch || "tax8" in patch || "tax10" in patch;
+      return affectsAllocation ? reallocate(next) : next;
+    }));
+  }
+  function removeReceipt(id: string) {
+    onChange(receipts.filter((r) => r.id !== id));
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>読み取り結果の確認</CardTitle>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onDiscard}><X className="mr-2 h-4 w-4" />すべて破棄</Button>
+          <Button onClick={() => onCommit(stagedToRecords(receipts))} disabled={!toSave.length}>
+            <Check className="mr-2 h-4 w-4" />{toSave.length}件を保存（{prettyJPY(toSave.reduce((s, t) => s + t.amount, 0))}）
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {receipts.map((r) => {
+          const selected = r.lines.filter((l) => l.selected).length;
+          const included = r.lines.filter((l) => !l.excluded);
+          const check = checkReceiptTotal(r.meta, included.map((l) => l.amount));
+          const discount = r.meta.discounts.reduce((s, d) => s + d.amount, 0);
+          const tax = (r.meta.tax8 ?? 0) + (r.meta.tax10 ?? 0);
+          // 内税のまま合計が税額ぶん足りないなら外税のレシートの可能性が高い
+          const looksExclusive = r.meta.taxMode === "inclusive" && tax > 0 && Math.abs(check.diff - tax) <= 1;
+          return (
+            <div key={r.id} className="grid grid-cols-1 md:grid-cols-[180px_1fr] gap-4 border-b pb-4">
+              <div className="space-y-2">
+                <a href={r.imageUrl} target="_blank" rel="noreferrer">
+                  <img src={r.imageUrl} alt={r.fileName} className="w-full rounded-xl border border-slate-200 object-contain" />
+                </a>
+                <div className="text-xs text-slate-500 break-all">{r.fileName}</div>
+                <Button size="sm" variant="outline" onClick={() => removeReceipt(r.id)}>このレシートを破棄</Button>
+              </div>
+
+              <div className="overflow-x-auto space-y-3">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                  <div className="md:col-span-2">
+                    <Label>店名</Label>
+                    <Input value={r.meta.storeName} onChange={(e) => updateMeta(r.id, { storeName: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label>購入日</Label>
+                    <Input type="date" value={r.meta.date} onChange={(e) => updateMeta(r.id, { date: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label>時刻</Label>
+                    <Input type="time" value={r.meta.time} onChange={(e) => updateMeta(r.id, { time: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label>支払方法</Label>
+                    <Select value={r.meta.paymentMethod} onValueChange={(v) => updateMeta(r.id, { paymentMethod: v })}>
+                      <SelectTrigger><SelectValue placeholder="不明" /></SelectTrigger>
+                      <SelectContent>
+                        {PAYMENT_METHODS.map((m) => (<SelectItem key={m} value={m}>{m}</SelectItem>))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>税の表示</Label>
+                    <Select value={r.meta.taxMode} onValueChange={(v) => updateMeta(r.id, { taxMode: v as TaxMode })}>
+                      <SelectTrigger><SelectValue>{TAX_MODE_LABELS[r.meta.taxMode]}</SelectValue></SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(TAX_MODE_LABELS) as TaxMode[]).map((m) => (
+                          <SelectItem key={m} value={m}>{TAX_MODE_LABELS[m]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>小計</Label>
+                    <Input type="number" value={r.meta.subtotal ?? ""} onChange={(e) => updateMeta(r.id, { subtotal: e.target.value === "" ? null : Number(e.target.value) })} />
+                  </div>
+                  <div>
+                    <Label>消費税（8%）</Label>
+                    <Input type="number" value={r.meta.tax8 ?? ""} onChange={(e) => updateMeta(r.id, { tax8: e.target.value === "" ? null : Number(e.target.value) })} />
+                  </div>
+                  <div>
+                    <Label>消費税（10%）</Label>
+                    <Input type="number" value={r.meta.tax10 ?? ""} onChange={(e) => updateMeta(r.id, { tax10: e.target.value === "" ? null : Number(e.target.value) })} />
+                  </div>
+                  <div>
+                    <Label>値引</Label>
+                    <div
+                      className="py-2 text-sm"
+                      title={r.meta.discounts.map((d) => `${d.label} ${prettyJPY(d.amount)}（${d.target || "全体"}）`).join("\n")}
+                    >
+                      {discount ? `-${prettyJPY(discount)}（${r.meta.discounts.length}件）` : "なし"}
+                    </div>
+                  </div>
+                  <div>
+                    <Label>合計（印字）</Label>
+                    <Input type="number" value={r.meta.total ?? ""} onChange={(e) => updateMeta(r.id, { total: e.target.value === "" ? null : Number(e.target.value) })} />
+                  </div>
+                </div>
+
+                {check.status === "mismatch" && (
+                  <div className="flex items-center gap-2 rounded-xl border border-orange-300 bg-orange-50 px-3 py-2 text-sm text-orange-800">
+                    <AlertTriangle className="h-4 w-4" />
+                    明細の合計がレシートの合計 {prettyJPY(check.expected ?? 0)} と {prettyJPY(Math.abs(check.diff))} {check.diff > 0 ? "足りません" : "多すぎます"}。
+                    {looksExclusive ? "外税のレシートではありませんか？" : "読み落とし・読み違いがないか確認してください。"}
+                  </div>
+                )}
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b">
+                      <th className="py-2 pr-2"></th>
+                      <th className="py-2 pr-2">日付</th>
+                      <th className="py-2 pr-2">メモ</th>
+                      <th className="py-2 pr-2 text-right">支払額</th>
+                      <th className="py-2 pr-2">税率</th>
+                      <th className="py-2 pr-2">カテゴリ</th>
+                      <th className="py-2 pr-2">支払者</th>
+                      <th className="py-2 pr-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {r.lines.map((l) => (
+                      <tr key={l.id} className={`border-b align-top ${l.excluded ? "opacity-50" : ""}`}>
+                        <td className="py-1 pr-2 pt-3">
+                          <input
+                            type="checkbox"
+                            aria-label="結合の対象"
+                            checked={l.selected}
+                            onChange={(e) => updateLine(r.id, l.id, { selected: e.target.checked })}
+                          />
+                        </td>
+                        <td className="py-1 pr-2 w-40">
+                          <Input type="date" value={l.date} onChange={(e) => updateLine(r.id, l.id, { date: e.target.value })} />
+                        </td>
+                        <td className="py-1 pr-2 min-w-[10rem]">
+                          <Input value={l.memo} onChange={(e) => updateLine(r.id, l.id, { memo: e.target.value })} />
+                          {dups.has(l.id) && (
+                            <div className="mt-1 text-xs text-orange-600">
+                              重複の可能性{l.excluded ? "（除外中）" : ""}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-1 pr-2 w-28">
+                          {/* 手で直した支払額は、除外・税率・税の表示を変えて配分し直しても残す */}
+                          <Input type="number" value={l.amount || ""} onChange={(e) => updateLine(r.id, l.id, { amount: Number(e.target.value), manualAmount: true })} />
+                          {l.manualAmount && !l.excluded ? (
+                            <button
+                              type="button"
+                              className="mt-1 text-xs text-blue-700 hover:underline"
+                              title="値引・外税の配分で計算した支払額に戻します"
+                              onClick={() => updateLineAndReallocate(r.id, l.id, { manualAmount: false })}
+                            >
+                              手入力（自動に戻す）
+                            </button>
+                          ) : l.amount !== l.listPrice && !l.excluded && (
+                            <div className="mt-1 text-xs text-slate-500" title="値引・外税を配分した支払額を保存します">
+                              印字 {prettyJPY(l.listPrice)}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-1 pr-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="軽減税率（8%）/ 標準税率（10%）"
+                            onClick={() => updateLineAndReallocate(r.id, l.id, { taxRate: l.taxRate === 8 ? 10 : 8 })}
+                          >
+                            {l.taxRate}%
+                          </Button>
+                        </td>
+                        <td className="py-1 pr-2 w-32">
+                          <Select value={l.category} onValueChange={(v) => updateLine(r.id, l.id, { category: v })}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {categories.map((c) => (<SelectItem key={c} value={c}>{c}</SelectItem>))}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                        <td className="py-1 pr-2 w-28">
+                          <Select value={l.payer} onValueChange={(v) => updateLine(r.id, l.id, { payer: v })}>
+                            <SelectTrigger><SelectValue>{payerName(household, l.payer)}</SelectValue></SelectTrigger>
+                            <SelectContent>
+                              {payerOptions(household, l.payer).map((p) => (<SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>))}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                        <td className="py-1 pr-2">
+                          <div className="flex justify-end gap-1">
+                            <Button size="sm" variant="outline" title="2行に分割" onClick={() => updateReceipt(r.id, (lines) => splitLine(lines, l.id))}>
+                              <Split className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => updateLineAndReallocate(r.id, l.id, { excluded: !l.excluded })}>
+                              {l.excluded ? "含める" : "除外"}
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                    {r.lines.length === 0 && (
+                      <tr><td className="py-6 text-center text-slate-500" colSpan={8}>明細を読み取れませんでした。</td></tr>
+                    )}
+                  </tbody>
+                </table>
+                <div className="mt-2 flex items-center justify-between text-sm text-slate-600">
+                  <Button size="sm" variant="outline" disabled={selected < 2} onClick={() => merge(r)}>
+                    <Combine className="mr-1 h-4 w-4" />選択した{selected}行を結合
+                  </Button>
+                  <span>
+                    保存 {included.length}行 / 明細合計 {prettyJPY(check.itemsTotal)}
+                    {check.status === "ok" && <span className="ml-2 text-emerald-600">✓ レシート合計と一致</span>}
+                  </span>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,222 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Repeat, Trash2 } from "lucide-react";
+import type { Kind } from "@/lib/types";
+import { type Household, payerName, payerOptions } from "@/lib/household";
+import {
+  RECUR_FREQ_LABELS,
+  type RecurFreq,
+  type RecurringRule,
+  describeSchedule,
+  newRule,
+  setException,
+  upcoming,
+} from "@/lib/recurring";
+import { prettyJPY } from "@/lib/utils";
+
+type Props = {
+  rules: RecurringRule[];
+  onChange: (rules: RecurringRule[]) => void;
+  household: Household;
+  categories: string[];
+  today: string;           // YYYY-MM-DD
+};
+
+// ====== 定期的な支出・収入 ======
+export function RecurringPanel({ rules, onChange, household, categories, today }: Props) {
+  const defaultPayer = household.defaultPayer;
+  const [draft, setDraft] = useState<RecurringRule>(() => newRule(today, defaultPayer));
+  const set = (patch: Partial<RecurringRule>) => setDraft((d) => ({ ...d, ...patch }));
+
+  function addRule() {
+    if (!draft.memo.trim() || !(draft.amount > 0)) {
+      alert("メモと金額を入力してください。");
+      return;
+    }
+    // 開始日が過去なら、開いたときと同じく今日までの分がすぐ生成される
+    onChange([...rules, { ...draft, memo: draft.memo.trim(), endDate: draft.endDate || undefined }]);
+    setDraft(newRule(today, defaultPayer));
+  }
+  function updateRule(id: string, fn: (r: RecurringRule) => RecurringRule) {
+    onChange(rules.map((r) => (r.id === id ? fn(r) : r)));
+  }
+  function removeRule(r: RecurringRule) {
+    if (!confirm(`「${r.memo}」の定期ルールを削除します（生成済みの明細は残ります）。よろしいですか？`)) return;
+    onChange(rules.filter((x) => x.id !== r.id));
+  }
+  function changeOnce(r: RecurringRule, date: string) {
+    const current = r.exceptions?.[date]?.amount ?? r.amount;
+    const input = prompt(`${date} の分だけ金額を変更します（空欄で元に戻す）`, String(current));
+    if (input == null) return;
+    const amount = Number(input.replace(/[^\d]/g, ""));
+    updateRule(r.id, (x) => setException(x, date, input.trim() && amount > 0 ? { amount } : null));
+  }
+
+  return (
+    <Card>
+      <CardHeader><CardTitle>定期的な支出・収入</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+          <div className="md:col-span-2">
+            <Label>メモ</Label>
+            <Input value={draft.memo} onChange={(e) => set({ memo: e.target.value })} placeholder="例：家賃" />
+          </div>
+          <div>
+            <Label>金額</Label>
+            <Input type="number" value={draft.amount || ""} onChange={(e) => set({ amount: Number(e.target.value) })} />
+          </div>
+          <div>
+            <Label>カテゴリ</Label>
+            <Select value={draft.category} onValueChange={(v) => set({ category: v })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {categories.map((c) => (<SelectItem key={c} value={c}>{c}</SelectItem>))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>支払者</Label>
+            <Select value={draft.payer} onValueChange={(v) => set({ payer: v })}>
+              <SelectTrigger><SelectValue>{payerName(household, draft.payer)}</SelectValue></SelectTrigger>
+              <SelectContent>
+                {payerOptions(household, draft.payer).map((p) => (<SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>収支</Label>
+            <Select value={draft.kind} onValueChange={(v) => set({ kind: v as Kind })}>
+              <SelectTrigger><SelectValue>{draft.kind === "income" ? "収入" : "支出"}</SelectValue></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="expense">支出</SelectItem>
+                <SelectItem value="income">収入</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="md:col-span-2">
+            <Label>繰り返し</Label>
+            <Select value={draft.freq} onValueChange={(v) => set({ freq: v as RecurFreq })}>
+              <SelectTrigger><SelectValue>{RECUR_FREQ_LABELS[draft.freq]}</SelectValue></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RECUR_FREQ_LABELS) as RecurFreq[]).map((f) => (
+                  <SelectItem key={f} value={f}>{RECUR_FREQ_LABELS[f]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {draft.freq === "yearly" && (
+            <div>
+              <Label>月</Label>
+              <Input type="number" min={1} max={12} value={draft.month} onChange={(e) => set({ month: Number(e.target.value) })} />
+            </div>
+          )}
+          {(draft.freq === "monthly" || draft.freq === "yearly") && (
+            <div>
+              <Label>日</Label>
+              <Input type="number" min={1} max={31} value={draft.day} onChange={(e) => set({ day: Number(e.target.value) })} />
+            </div>
+          )}
+          {draft.freq === "weekly" && (
+            <div>
+              <Label>何週ごと</Label>
+              <Input type="number" min={1} value={draft.interval} onChange={(e) => set({ interval: Number(e.target.value) })} />
+            </div>
+          )}
+          <div>
+            <Label>開始日</Label>
+            <Input type="date" value={draft.startDate} onChange={(e) => set({ startDate: e.target.value })} />
+          </div>
+          <div>
+            <Label>終了日（任意）</Label>
+            <Input type="date" value={draft.endDate || ""} onChange={(e) => set({ endDate: e.target.value })} />
+          </div>
+
+          <div className="md:col-span-6 flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={!!draft.personal}
+                disabled={draft.kind !== "expense"}
+                onChange={(e) => set({ personal: e.target.checked })}
+              />
+              個人の支出（割り勘精算しない）
+            </label>
+            <Button onClick={addRule}><Plus className="mr-2 h-4 w-4" />ルールを追加</Button>
+          </div>
+        </div>
+
+        {rules.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2 pr-2">メモ</th>
+                  <th className="py-2 pr-2">繰り返し</th>
+                  <th className="py-2 pr-2">カテゴリ / 支払者</th>
+                  <th className="py-2 pr-2 text-right">金額</th>
+                  <th className="py-2 pr-2">次回以降（1回分だけ変更）</th>
+                  <th className="py-2 pr-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map((r) => (
+                  <tr key={r.id} className="border-b align-top">
+                    <td className="py-2 pr-2">
+                      <Repeat className="mr-1 inline h-3 w-3 text-slate-400" />{r.memo}
+                      {r.kind === "income" && <span className="ml-2 text-xs text-emerald-600">収入</span>}
+                    </td>
+                    <td className="py-2 pr-2">{describeSchedule(r)}</td>
+                    <td className="py-2 pr-2">{r.category} / {payerName(household, r.payer)}</td>
+                    <td className="py-1 pr-2 w-32">
+                      <Input
+                        type="number"
+                        value={r.amount || ""}
+                        onChange={(e) => updateRule(r.id, (x) => ({ ...x, amount: Number(e.target.value) }))}
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <ul className="space-y-1">
+                        {upcoming(r, today, 3).map((d) => {
+                          const ex = r.exceptions?.[d];
+                          return (
+                            <li key={d} className="flex items-center gap-2">
+                              <span className={ex?.skip ? "line-through text-slate-400" : ""}>
+                                {d} {prettyJPY(ex?.amount ?? r.amount)}
+                              </span>
+                              {ex?.amount != null && <span className="text-xs text-orange-600">変更</span>}
+                              <button
+                                className="text-xs text-slate-500 underline"
+                                onClick={() => updateRule(r.id, (x) => setException(x, d, ex?.skip ? null : { skip: true }))}
+                              >
+                                {ex?.skip ? "戻す" : "スキップ"}
+                              </button>
+                              {!ex?.skip && (
+                                <button className="text-xs text-slate-500 underline" onClick={() => changeOnce(r, d)}>金額変更</button>
+                              )}
+                            </li>
+                          );
+                        })}
+                        {upcoming(r, today, 1).length === 0 && <li className="text-slate-400">終了</li>}
+                      </ul>
+                    </td>
+                    <td className="py-2 pr-2 text-right">
+                      <Button size="sm" variant="destructive" onClick={() => removeRule(r)}><Trash2 className="h-4 w-4" /></Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-slate-500">
+          予定日が来た分はアプリを開いたときに明細として自動で追加されます。追加済みの回は明細一覧から編集・削除できます。
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { Txn } from "@/lib/types";
+import { type Household, payerName, payerOptions } from "@/lib/household";
+import {
+  type CategoryRule,
+  MATCH_TYPE_LABELS,
+  type MatchType,
+  type StoreLookup,
+  affectedBy,
+  isValidPattern,
+  newCategoryRule,
+} from "@/lib/rules";
+import { parseTags } from "@/lib/tags";
+
+const NO_PAYER = "__keep__";
+
+type Props = {
+  rules: CategoryRule[];
+  onChange: (rules: CategoryRule[]) => void;
+  txns: Txn[];
+  storeOf: StoreLookup;
+  household: Household;
+  categories: string[];
+  onApply: (rule: CategoryRule, targets: Txn[]) => void;
+};
+
+// ====== 自動分類ルール ======
+export function RulesPanel({ rules, onChange, txns, storeOf, household, categories, onApply }: Props) {
+  const [draft, setDraft] = useState<CategoryRule>(() => newCategoryRule());
+  const [draftTags, setDraftTags] = useState("");
+
+  // ルールごとの「過去の明細で変わる件数」
+  const affected = useMemo(
+    () => new Map(rules.map((r) => [r.id, affectedBy(r, rules, txns, storeOf)])),
+    [rules, txns, storeOf]
+  );
+
+  function addRule() {
+    if (!isValidPattern(draft.match, draft.pattern)) {
+      alert(draft.match === "regex" ? "正規表現が正しくありません。" : "条件を入力してください。");
+      return;
+    }
+    const tags = parseTags(draftTags);
+    onChange([...rules, { ...draft, pattern: draft.pattern.trim(), ...(tags.length ? { tags } : {}) }]);
+    setDraft(newCategoryRule({ category: draft.category }));
+    setDraftTags("");
+  }
+  function update(id: string, patch: Partial<CategoryRule>) {
+    onChange(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  }
+  function remove(id: string) {
+    onChange(rules.filter((r) => r.id !== id));
+  }
+
+  const sorted = [...rules].sort((a, b) => b.priority - a.priority || b.createdAt.localeCompare(a.createdAt));
+
+  return (
+    <Card>
+      <CardHeader><CardTitle>自動分類ルール</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+          <div className="md:col-span-2">
+            <Label>条件</Label>
+            <Select value={draft.match} onValueChange={(v) => setDraft((d) => ({ ...d, match: v as MatchType }))}>
+              <SelectTrigger><SelectValue>{MATCH_TYPE_LABELS[draft.match]}</SelectValue></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MATCH_TYPE_LABELS) as MatchType[]).map((m) => (
+                  <SelectItem key={m} value={m}>{MATCH_TYPE_LABELS[m]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="md:col-span-2">
+            <Label>{draft.match === "regex" ? "正規表現" : draft.match === "store" ? "店名（前方一致）" : "キーワード"}</Label>
+            <Input
+              value={draft.pattern}
+              onChange={(e) => setDraft((d) => ({ ...d, pattern: e.target.value }))}
+              placeholder={draft.match === "regex" ? "例：^(NETFLIX|Spotify)" : "例：ドラッグ"}
+            />
+          </div>
+          <div>
+            <Label>カテゴリ</Label>
+            <Select value={draft.category} onValueChange={(v) => setDraft((d) => ({ ...d, category: v }))}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {categories.map((c) => (<SelectItem key={c} value={c}>{c}</SelectItem>))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>支払者</Label>
+            <Select value={draft.payer || NO_PAYER} onValueChange={(v) => setDraft((d) => ({ ...d, payer: v === NO_PAYER ? undefined : v }))}>
+              <SelectTrigger><SelectValue>{draft.payer ? payerName(household, draft.payer) : "変えない"}</SelectValue></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PAYER}>変えない</SelectItem>
+                {payerOptions(household).map((p) => (<SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="md:col-span-3">
+            <Label>タグ（カンマ区切り・任意）</Label>
+            <Input value={draftTags} onChange={(e) => setDraftTags(e.target.value)} placeholder="例：固定費, 車" />
+          </div>
+          <div>
+            <Label>優先度</Label>
+            <Input type="number" value={draft.priority} onChange={(e) => setDraft((d) => ({ ...d, priority: Number(e.target.value) }))} />
+          </div>
+          <div className="md:col-span-2 flex items-end justify-end">
+            <Button onClick={addRule}><Plus className="mr-2 h-4 w-4" />ルールを追加</Button>
+          </div>
+        </div>
+
+        {sorted.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2 pr-2">有効</th>
+                  <th className="py-2 pr-2">優先度</th>
+                  <th className="py-2 pr-2">条件</th>
+                  <th className="py-2 pr-2">→ カテゴリ / 支払者 / タグ</th>
+                  <th className="py-2 pr-2">過去の明細</th>
+                  <th className="py-2 pr-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map((r) => {
+                  const targets = affected.get(r.id) ?? [];
+                  return (
+                    <tr key={r.id} className={`border-b align-top ${r.enabled ? "" : "opacity-50"}`}>
+                      <td className="py-2 pr-2">
+                        <input type="checkbox" checked={r.enabled} onChange={(e) => update(r.id, { enabled: e.target.checked })} />
+                      </td>
+                      <td className="py-1 pr-2 w-20">
+                        <Input type="number" value={r.priority} onChange={(e) => update(r.id, { priority: Number(e.target.value) })} />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <div className="text-xs text-slate-500">{MATCH_TYPE_LABELS[r.match]}</div>
+                        <code className={isValidPattern(r.match, r.pattern) ? "" : "text-red-600"}>{r.pattern}</code>
+                      </td>
+                      <td className="py-2 pr-2">
+                        {r.category}
+                        {r.payer && ` / ${payerName(household, r.payer)}`}
+                        {!!r.tags?.length && (
+                          <span className="ml-2 text-xs text-slate-500">{r.tags.map((t) => `#${t}`).join(" ")}</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2">
+                        {targets.length ? (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              if (confirm(`過去の明細 ${targets.length}件をこのルールで分類し直します。よろしいですか？`)) onApply(r, targets);
+                            }}
+                          >
+                            {targets.length}件を再分類
+                          </Button>
+                        ) : (
+                          <span className="text-xs text-slate-500">変更なし</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        <Button size="sm" variant="destructive" onClick={() => remove(r.id)}><Trash2 className="h-4 w-4" /></Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-slate-500">
+          ルールはレシートOCR・CSV取り込み・手入力に自動で適用されます。複数のルールに一致した場合は優先度の大きいものが使われます。
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ArrowRight, Check } from "lucide-react";
+import type { Txn } from "@/lib/types";
+import { type Household, payerName } from "@/lib/household";
+import {
+  type DateRange,
+  type SettlementRecord,
+  type SplitConfig,
+  type SplitMode,
+  buildSettlement,
+  computeSettlement,
+  monthRange,
+} from "@/lib/settlement";
+import { prettyJPY } from "@/lib/utils";
+
+const MODE_LABELS: Record<SplitMode, string> = {
+  equal: "均等",
+  fixed: "固定割合",
+  income: "収入比",
+};
+
+type Props = {
+  txns: Txn[];
+  household: Household;
+  month: string;                       // 既定の対象月（YYYY-MM）
+  split: SplitConfig;
+  onSplitChange: (c: SplitConfig) => void;
+  settlements: SettlementRecord[];
+  onRecord: (record: SettlementRecord, txns: Txn[]) => void;
+  onVoid: (id: string) => void;
+};
+
+// ====== 割り勘精算 ======
+export function SettlementPanel({ txns, household, month, split, onSplitChange, settlements, onRecord, onVoid }: Props) {
+  const [useRange, setUseRange] = useState(false);
+  const [rangeMonth, setRangeMonth] = useState(month);
+  const [custom, setCustom] = useState<DateRange>(() => monthRange(month));
+
+  // 月指定のときも range をレンダーごとに作り直さない（下の精算の memo が効くように）
+  const range = useMemo(() => (useRange ? custom : monthRange(rangeMonth)), [useRange, custom, rangeMonth]);
+  const nameOf = (id: string) => payerName(household, id);
+
+  const result = useMemo(() => computeSettlement(txns, household, range, split), [txns, household, range, split]);
+
+  const fixedSum = result.members.reduce((s, m) => s + (Number(split.shares[m.id]) || 0), 0);
+
+  function record() {
+    if (!result.transfers.length) return;
+    const lines = result.transfers.map((t) => `${nameOf(t.from)} → ${nameOf(t.to)}: ${prettyJPY(t.amount)}`).join("\n");
+    if (!window.confirm(`次の精算を記録します。\n${lines}`)) return;
+    const { record, txns: created } = buildSettlement(result, range, split.mode, nameOf);
+    onRecord(record, created);
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader><CardTitle>割り勘精算</CardTitle></CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="w-40">
+              <Label>期間</Label>
+              <Select value={useRange ? "range" : "month"} onValueChange={(v) => setUseRange(v === "range")}>
+                <SelectTrigger><SelectValue>{useRange ? "日付範囲" : "月"}</SelectValue></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="month">月</SelectItem>
+                  <SelectItem value="range">日付範囲</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {useRange ? (
+              <>
+                <div>
+                  <Label>開始</Label>
+                  <Input type="date" value={custom.from} onChange={(e) => setCustom((r) => ({ ...r, from: e.target.value }))} />
+                </div>
+                <div>
+                  <Label>終了</Label>
+                  <Input type="date" value={custom.to} onChange={(e) => setCustom((r) => ({ ...r, to: e.target.value }))} />
+                </div>
+              </>
+            ) : (
+              <div>
+                <Label>対象月</Label>
+                <Input type="month" value={rangeMonth} onChange={(e) => setRangeMonth(e.target.value)} />
+              </div>
+            )}
+            <div className="w-40">
+              <Label>負担割合</Label>
+              <Select value={split.mode} onValueChange={(v) => onSplitChange({ ...split, mode: v as SplitMode })}>
+                <SelectTrigger><SelectValue>{MODE_LABELS[split.mode]}</SelectValue></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MODE_LABELS) as SplitMode[]).map((m) => (<SelectItem key={m} value={m}>{MODE_LABELS[m]}</SelectItem>))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {split.mode === "fixed" && (
+            <div className="flex flex-wrap items-end gap-3">
+              {result.members.map((m) => (
+                <div key={m.id} className="w-32">
+                  <Label>{nameOf(m.id)}（%）</Label>
+                  <Input
+                    type="number"
+                    value={split.shares[m.id] ?? ""}
+                    onChange={(e) => onSplitChange({ ...split, shares: { ...split.shares, [m.id]: Number(e.target.value || 0) } })}
+                  />
+                </div>
+              ))}
+              {fixedSum !== 100 && <span className="text-xs text-orange-600">合計 {fixedSum}%（100%になるよう按分して計算します）</span>}
+            </div>
+          )}
+          {split.mode === "income" && (
+            <p className="text-xs text-slate-500">期間内の収入明細（支払者 = 受取人）の比率で負担します。収入がない場合は均等です。</p>
+          )}
+
+          <div className="text-sm text-slate-600">
+            精算対象の支出: {result.count}件 / {prettyJPY(result.total)}
+            <span className="ml-2 text-xs text-slate-500">（共同財布からの支払い・個人の支出は対象外）</span>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2 pr-2">メンバー</th>
+                <th className="py-2 pr-2 text-right">立替額</th>
+                <th className="py-2 pr-2 text-right">負担割合</th>
+                <th className="py-2 pr-2 text-right">負担額</th>
+                <th className="py-2 pr-2 text-right">過不足</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.members.map((m) => (
+                <tr key={m.id} className="border-b">
+                  <td className="py-2 pr-2">{nameOf(m.id)}</td>
+                  <td className="py-2 pr-2 text-right">{prettyJPY(m.paid)}</td>
+                  <td className="py-2 pr-2 text-right">{(m.share * 100).toFixed(1)}%</td>
+                  <td className="py-2 pr-2 text-right">{prettyJPY(m.owed)}</td>
+                  <td className={`py-2 pr-2 text-right ${m.balance >= 0 ? "text-blue-700" : "text-orange-700"}`}>
+                    {m.balance >= 0 ? "+" : ""}{prettyJPY(m.balance)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {result.transfers.length ? (
+            <Alert>
+              <AlertTitle>精算方法</AlertTitle>
+              <AlertDescription>
+                <ul className="space-y-1">
+                  {result.transfers.map((t, i) => (
+                    <li key={i} className="flex items-center gap-2">
+                      {nameOf(t.from)} <ArrowRight className="h-4 w-4" /> {nameOf(t.to)}: <b>{prettyJPY(t.amount)}</b>
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <p className="text-sm text-slate-500">精算の必要はありません。</p>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={record} disabled={!result.transfers.length}>
+              <Check className="mr-2 h-4 w-4" />精算を記録
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader><CardTitle>精算履歴</CardTitle></CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2 pr-2">記録日</th>
+                <th className="py-2 pr-2">期間</th>
+                <th className="py-2 pr-2">方式</th>
+                <th className="py-2 pr-2">送金</th>
+                <th className="py-2 pr-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {settlements.map((s) => (
+                <tr key={s.id} className={`border-b ${s.voidedAt ? "text-slate-400 line-through" : ""}`}>
+                  <td className="py-2 pr-2">{s.createdAt.slice(0, 10)}</td>
+                  <td className="py-2 pr-2">{s.range.from}〜{s.range.to}</td>
+                  <td className="py-2 pr-2">{MODE_LABELS[s.mode]}</td>
+                  <td className="py-2 pr-2">
+                    {s.transfers.map((t) => `${nameOf(t.from)}→${nameOf(t.to)} ${prettyJPY(t.amount)}`).join(" / ")}
+                  </td>
+                  <td className="py-2 pr-2 text-right">
+                    {!s.voidedAt && (
+                      <Button size="sm" variant="outline" onClick={() => {
+                        if (window.confirm("この精算を取り消します（送金明細は削除され、履歴には残ります）。")) onVoid(s.id);
+                      }}>取り消し</Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {settlements.length === 0 && (
+                <tr><td className="py-6 text-center text-slate-500" colSpan={5}>まだ精算の記録はありません。</td></tr>
+              )}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Repeat } from "lucide-react";
+import { type Household, payerName } from "@/lib/household";
+import { CADENCE_LABELS, type DetectedSubscription } from "@/lib/subscriptions";
+import { prettyJPY } from "@/lib/utils";
+
+type Props = {
+  items: DetectedSubscription[];
+  household: Household;
+  onCreateRule: (s: DetectedSubscription) => void;
+  onCancel: (s: DetectedSubscription) => void;
+  onUncancel: (s: DetectedSubscription) => void;
+};
+
+// ====== サブスク・定期的な請求（履歴から検出） ======
+export function SubscriptionPanel({ items, household, onCreateRule, onCancel, onUncancel }: Props) {
+  const active = items.filter((s) => !s.cancelled);
+  const annual = active.reduce((s, x) => s + x.annualCost, 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>サブスク・定期的な支払い（検出）</CardTitle>
+        {active.length > 0 && (
+          <span className="text-sm text-slate-600">
+            {active.length}件 / 年額 {prettyJPY(annual)}（月あたり {prettyJPY(Math.round(annual / 12))}）
+          </span>
+        )}
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <p className="text-sm text-slate-500">同じ内容・近い金額の支払いが一定間隔で3回以上（年1回なら2回）あると、ここに表示されます。</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2 pr-2">内容</th>
+                  <th className="py-2 pr-2">周期</th>
+                  <th className="py-2 pr-2">直近の請求</th>
+                  <th className="py-2 pr-2 text-right">年額</th>
+                  <th className="py-2 pr-2">価格改定</th>
+                  <th className="py-2 pr-2">状態</th>
+                  <th className="py-2 pr-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((s) => (
+                  <tr key={s.key} className={`border-b align-top ${s.cancelled && !s.chargedAfterCancel ? "opacity-60" : ""}`}>
+                    <td className="py-2 pr-2">
+                      {s.memo}
+                      <div className="text-xs text-slate-500">{s.category} / {payerName(household, s.payer)} / {s.count}回</div>
+                    </td>
+                    <td className="py-2 pr-2">{CADENCE_LABELS[s.cadence]}</td>
+                    <td className="py-2 pr-2">
+                      {s.lastDate} {prettyJPY(s.lastAmount)}
+                      {!s.cancelled && <div className="text-xs text-slate-500">次回予定 {s.nextExpected}</div>}
+                    </td>
+                    <td className="py-2 pr-2 text-right">{prettyJPY(s.annualCost)}</td>
+                    <td className="py-2 pr-2 text-xs">
+                      {s.priceChanges.map((p) => (
+                        <div key={p.date} className={p.to > p.from ? "text-red-600" : "text-emerald-600"}>
+                          {p.date}: {prettyJPY(p.from)} → {prettyJPY(p.to)}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="py-2 pr-2 text-xs">
+                      {s.chargedAfterCancel ? (
+                        <span className="rounded-full bg-red-50 px-2 py-0.5 text-red-700">解約後に請求あり</span>
+                      ) : s.cancelled ? (
+                        <span className="rounded-full bg-slate-100 px-2 py-0.5 text-slate-600">解約済み</span>
+                      ) : s.overdue ? (
+                        <span className="rounded-full bg-orange-50 px-2 py-0.5 text-orange-700">予定日を過ぎても請求なし</span>
+                      ) : (
+                        <span className="rounded-full bg-emerald-50 px-2 py-0.5 text-emerald-700">継続中</span>
+                      )}
+                      {s.hasRule && <div className="mt-1 text-violet-700"><Repeat className="mr-1 inline h-3 w-3" />定期ルールあり</div>}
+                    </td>
+                    <td className="py-2 pr-2">
+                      <div className="flex justify-end gap-2">
+                        {!s.cancelled && !s.hasRule && (
+                          <Button size="sm" variant="outline" onClick={() => onCreateRule(s)}>定期ルールにする</Button>
+                        )}
+                        {s.cancelled ? (
+                          <Button size="sm" variant="outline" onClick={() => onUncancel(s)}>解約を取り消す</Button>
+                        ) : (
+                          <Button size="sm" variant="outline" onClick={() => onCancel(s)}>解約済みにする</Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { Txn } from "@/lib/types";
+import { type Household, payerName } from "@/lib/household";
+import { prettyJPY } from "@/lib/utils";
+import { type ConflictField, DELETED_FIELD, type FieldChoice, type Side, type SyncConflict, resolveConflict, useRemoteState } from "@/lib/sync";
+
+const FIELD_LABELS: Partial<Record<ConflictField, string>> = {
+  [DELETED_FIELD]: "削除",
+  date: "日付",
+  amount: "金額",
+  memo: "メモ",
+  category: "カテゴリ",
+  payer: "支払者",
+  kind: "収支",
+  personal: "個人の支出",
+  payee: "受け取り",
+  tags: "タグ",
+};
+
+const KIND_LABELS: Record<string, string> = { expense: "支出", income: "収入", transfer: "精算" };
+
+function formatValue(h: Household, field: ConflictField, t: Txn | null): string {
+  if (!t) return "削除";
+  if (field === DELETED_FIELD) return `${t.date} ${t.memo || t.category} ${prettyJPY(t.amount)}`;
+  const v = t[field];
+  if (v === undefined || v === "") return "（なし）";
+  if (field === "amount") return prettyJPY(t.amount);
+  if (field === "payer" || field === "payee") return payerName(h, String(v));
+  if (field === "kind") return KIND_LABELS[t.kind] ?? t.kind;
+  if (field === "personal") return v ? "はい" : "いいえ";
+  if (Array.isArray(v)) return v.join("、") || "（なし）";
+  return String(v);
+}
+
+// ====== 同期の競合（2 台で同じ明細の同じ項目を変えたとき） ======
+// 項目ごとに「この端末」「もう一台（サーバ）」のどちらを残すか選んでもらう。選ぶまでその明細は送らない。
+export function SyncConflicts({ household }: { household: Household }) {
+  const { conflicts } = useRemoteState();
+  if (!conflicts.length) return null;
+  return (
+    <Card>
+      <CardHeader><CardTitle>同期の競合（{conflicts.length}件）</CardTitle></CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <p className="text-slate-600">もう一台の端末でも同じ明細が変更されていました。残す内容を選んでください。</p>
+        {conflicts.map((c) => <ConflictRow key={c.id} conflict={c} household={household} />)}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ConflictRow({ conflict, household }: { conflict: SyncConflict; household: Household }) {
+  const [prefer, setPrefer] = useState<FieldChoice>({});
+  const title = conflict.local ?? conflict.remote;
+  const ready = conflict.fields.every((f) => prefer[f]);
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      {title && <div className="font-medium">{title.date} {title.memo || title.category}</div>}
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-500">
+            <th className="text-left font-normal w-24">項目</th>
+            <th className="text-left font-normal">この端末</th>
+            <th className="text-left font-normal">もう一台</th>
+          </tr>
+        </thead>
+        <tbody>
+          {conflict.fields.map((f) => (
+            <tr key={f}>
+              <td className="py-1">{FIELD_LABELS[f] ?? f}</td>
+              {(["local", "remote"] as const).map((side) => (
+                <td key={side} className="py-1">
+                  <label className="inline-flex items-center gap-1">
+                    <input
+                      type="radio"
+                      name={`${conflict.id}-${f}`}
+                      checked={prefer[f] === side}
+                      onChange={() => setPrefer((p) => ({ ...p, [f]: side }))}
+                    />
+                    {formatValue(household, f, conflict[side])}
+                  </label>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => resolveConflict(conflict.id, Object.fromEntries(conflict.fields.map((f) => [f, "local"])))}>
+          すべてこの端末
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => resolveConflict(conflict.id, Object.fromEntries(conflict.fields.map((f) => [f, "remote"])))}>
+          すべてもう一台
+        </Button>
+        <Button size="sm" disabled={!ready} onClick={() => resolveConflict(conflict.id, prefer)}>選んだ内容で解決</Button>
+      </div>
+    </div>
+  );
+}
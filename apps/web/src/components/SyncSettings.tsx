@@ -0,0 +1,158 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Cloud, CloudOff, Copy, RefreshCw } from "lucide-react";
+import type { Txn } from "@/lib/types";
+import type { Household } from "@/lib/household";
+import type { Budgets } from "@/lib/budget";
+import {
+  checkServer,
+  createRemoteHousehold,
+  fetchSnapshot,
+  inviteCode,
+  loadRemoteConfig,
+  parseInviteCode,
+  saveRemoteConfig,
+} from "@/lib/remote";
+import { resetSync, syncNow, useRemoteState } from "@/lib/sync";
+import { SyncConflicts } from "@/components/SyncConflicts";
+
+type Props = {
+  household: Household;
+  txns: Txn[];
+  categories: string[];
+  budgets: Budgets;
+  monthlyBudget: number;
+};
+
+// ====== 同期サーバ（2 人の端末で同じ家計簿を使う） ======
+// 接続先を変えたら読み込み直す（同期は起動時に始まるため）
+export function SyncSettings({ household, txns, categories, budgets, monthlyBudget }: Props) {
+  const config = loadRemoteConfig();
+  const state = useRemoteState();
+  const [url, setUrl] = useState(config?.url ?? "");
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function create() {
+    if (!url.trim()) return;
+    if (!confirm(`この端末の明細 ${txns.length}件をサーバに登録して、新しい世帯を作ります。よろしいですか？`)) return;
+    try {
+      setBusy(true);
+      await checkServer(url);
+      const cfg = await createRemoteHousehold(url, {
+        household,
+        categories,
+        budgets: { ...budgets, monthly: monthlyBudget },
+        txns,
+      });
+      saveRemoteConfig(cfg);
+      location.reload();
+    } catch (e: any) {
+      alert(`世帯を作れませんでした: ${e?.message ?? String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function join() {
+    const cfg = parseInviteCode(url, code);
+    if (!url.trim() || !cfg) {
+      alert("サーバの URL と招待コードを入力してください。");
+      return;
+    }
+    try {
+      setBusy(true);
+      const snap = await fetchSnapshot(cfg);
+      if (!confirm(`サーバの世帯（明細 ${snap.txns.length}件）に参加します。この端末の明細・世帯・予算はサーバの内容に置き換わります。よろしいですか？`)) return;
+      saveRemoteConfig(cfg);
+      location.reload();
+    } catch (e: any) {
+      alert(`参加できませんでした: ${e?.message ?? String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function disconnect() {
+    if (!confirm("サーバとの接続を解除して、この端末だけで使います（手元のデータは残ります）。よろしいですか？")) return;
+    saveRemoteConfig(null);
+    resetSync();
+    location.reload();
+  }
+
+  if (config) {
+    return (
+      <>
+        <Card>
+          <CardHeader><CardTitle>同期サーバ</CardTitle></CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex items-center gap-2">
+              {state.status === "offline" ? (
+                <><CloudOff className="h-4 w-4 text-orange-600" /><span>接続できません: {config.url}</span></>
+              ) : (
+                <><Cloud className="h-4 w-4 text-emerald-600" /><span>{state.status === "syncing" ? "同期中" : "接続中"}: {config.url}</span></>
+              )}
+            </div>
+            <div className="text-xs text-slate-600">
+              最終同期: {state.lastSyncedAt ? new Date(state.lastSyncedAt).toLocaleString("ja-JP") : "まだ"}
+              {state.pending > 0 && <>　送信待ち: {state.pending}件</>}
+              {state.conflicts.length > 0 && <span className="text-orange-700">　競合: {state.conflicts.length}件</span>}
+            </div>
+            {state.status === "offline" && (
+              <p className="text-xs text-orange-700">
+                {state.error}（オフライン中の変更はこの端末に保存し、つながったときに送ります）
+              </p>
+            )}
+            <div>
+              <Label>招待コード（もう一台の端末で入力）</Label>
+              <div className="flex gap-2">
+                <Input readOnly value={inviteCode(config)} onFocus={(e) => e.target.select()} />
+                <Button variant="outline" title="コピー" onClick={() => navigator.clipboard?.writeText(inviteCode(config))}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => void syncNow()} disabled={state.status === "syncing"}>
+                <RefreshCw className="mr-2 h-4 w-4" />今すぐ同期
+              </Button>
+              <Button variant="destructive" onClick={disconnect}>接続を解除</Button>
+            </div>
+          </CardContent>
+        </Card>
+        <SyncConflicts household={household} />
+      </>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader><CardTitle>同期サーバ</CardTitle></CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <p className="text-slate-600">
+          いまはこの端末だけに保存しています。同期サーバ（npm run server）を立てると、2人の端末で同じ家計簿を使えます。
+        </p>
+        <div>
+          <Label>サーバの URL</Label>
+          <Input value={url} onChange={(e) => setUrl(e.target.value)} placeholder="http://192.168.0.10:8787" />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <p className="text-xs text-slate-500">最初の1台: この端末のデータで世帯を作る</p>
+            <Button onClick={create} disabled={busy || !url.trim()}>新しい世帯を作る</Button>
+          </div>
+          <div className="space-y-2">
+            <p className="text-xs text-slate-500">2台目以降: 招待コードで参加する</p>
+            <div className="flex gap-2">
+              <Input value={code} onChange={(e) => setCode(e.target.value)} placeholder="h_xxxx.xxxx" />
+              <Button variant="outline" onClick={join} disabled={busy || !url.trim() || !code.trim()}>参加</Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
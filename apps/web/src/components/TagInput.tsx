@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from "react";
+import { X } from "lucide-react";
+import { normalizeTag, parseTags, suggestTags, uniqueTags } from "@/lib/tags";
+
+type Props = {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[];   // 使ったことのあるタグ（よく使う順）
+  placeholder?: string;
+};
+
+// ====== タグ入力（入力補完つき） ======
+// Enter・カンマ・空白で確定、空欄で Backspace を押すと最後のタグを消す。候補は ↑↓ で選ぶ
+export function TagInput({ value, onChange, suggestions, placeholder }: Props) {
+  const [text, setText] = useState("");
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(-1); // ↑↓ で選んだ候補（-1 = 入力した文字のまま）
+  const candidates = useMemo(() => suggestTags(suggestions, text, value), [suggestions, text, value]);
+
+  function add(tags: string[]) {
+    const next = uniqueTags([...value, ...tags]);
+    if (next.length !== value.length) onChange(next);
+    setText("");
+    setActive(-1);
+  }
+  function remove(tag: string) {
+    onChange(value.filter((t) => t !== tag));
+  }
+  function changeText(s: string) {
+    // 区切り文字を打った・貼り付けたら、その前までを確定する
+    const parts = s.split(/[,、\s]+/);
+    if (parts.length > 1) {
+      add(parseTags(parts.slice(0, -1).join(",")));
+      setText(parts[parts.length - 1]);
+    } else setText(s);
+    setActive(-1);
+    setOpen(true);
+  }
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.nativeEvent.isComposing) return;
+    if (e.key === "Enter") {
+      e.preventDefault();
+      const pick = open && candidates[active] ? candidates[active] : normalizeTag(text);
+      if (pick) add([pick]);
+    } else if (e.key === "Backspace" && !text && value.length) {
+      remove(value[value.length - 1]);
+    } else if (e.key === "ArrowDown" && candidates.length) {
+      e.preventDefault();
+      setOpen(true);
+      setActive((i) => (i + 1) % candidates.length);
+    } else if (e.key === "ArrowUp" && candidates.length) {
+      e.preventDefault();
+      setActive((i) => (i <= 0 ? candidates.length : i) - 1);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 rounded-xl border border-slate-300 px-2 py-1.5 text-sm focus-within:ring-2 focus-within:ring-slate-300">
+        {value.map((t) => (
+          <span key={t} className="inline-flex items-center gap-0.5 rounded-full bg-amber-50 px-2 text-xs text-amber-800">
+            #{t}
+            <button type="button" aria-label={`${t} を外す`} onClick={() => remove(t)} className="hover:text-amber-950">
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          className="min-w-[6rem] flex-1 bg-transparent py-0.5 focus:outline-none"
+          value={text}
+          onChange={(e) => changeText(e.target.value)}
+          onKeyDown={onKeyDown}
+          onFocus={() => setOpen(true)}
+          // 候補のクリックより先に閉じないよう少し待つ
+          onBlur={() => setTimeout(() => {
+            setOpen(false);
+            if (normalizeTag(text)) add([normalizeTag(text)]);
+          }, 150)}
+          placeholder={value.length ? "" : placeholder}
+        />
+      </div>
+      {open && candidates.length > 0 && (
+        <ul className="absolute z-10 mt-1 max-h-48 w-full overflow-auto rounded-xl border bg-white py-1 text-sm shadow">
+          {candidates.map((t, i) => (
+            <li key={t}>
+              <button
+                type="button"
+                className={`w-full px-3 py-1 text-left hover:bg-slate-50 ${i === active ? "bg-slate-100" : ""}`}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => add([t])}
+              >
+                #{t}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { List } from "lucide-react";
+import type { Txn } from "@/lib/types";
+import { tagReport } from "@/lib/tags";
+import { prettyJPY } from "@/lib/utils";
+
+type Props = {
+  txns: Txn[];
+  month: string;           // 「今月」「今年」の基準（YYYY-MM）
+  onShowList: (tag: string, from: string, to: string) => void;
+};
+
+// 期間のショートカット
+function presetRange(preset: "month" | "year" | "all", month: string): [string, string] {
+  if (preset === "month") {
+    const [y, m] = month.split("-").map(Number);
+    return [`${month}-01`, `${month}-${String(new Date(y, m, 0).getDate()).padStart(2, "0")}`];
+  }
+  if (preset === "year") return [`${month.slice(0, 4)}-01-01`, `${month.slice(0, 4)}-12-31`];
+  return ["", ""];
+}
+
+// ====== タグ別の集計（カテゴリをまたいだ出費のまとまり） ======
+export function TagReport({ txns, month, onShowList }: Props) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const rows = useMemo(() => tagReport(txns, from, to), [txns, from, to]);
+  const max = Math.max(1, ...rows.map((r) => r.expense));
+
+  function preset(p: "month" | "year" | "all") {
+    const [f, t] = presetRange(p, month);
+    setFrom(f);
+    setTo(t);
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+        <CardTitle>タグ別の集計</CardTitle>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Label className="text-sm">期間</Label>
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="max-w-[160px]" />
+          <span>〜</span>
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="max-w-[160px]" />
+          <Button size="sm" variant="outline" onClick={() => preset("month")}>今月</Button>
+          <Button size="sm" variant="outline" onClick={() => preset("year")}>今年</Button>
+          <Button size="sm" variant="outline" onClick={() => preset("all")}>すべて</Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            この期間にタグの付いた明細はありません。手入力や自動分類ルールで「旅行」「引っ越し」などのタグを付けると、カテゴリをまたいで合計できます。
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2 pr-2">タグ</th>
+                  <th className="py-2 pr-2 text-right">支出</th>
+                  <th className="py-2 pr-2 w-1/4"></th>
+                  <th className="py-2 pr-2 text-right">収入</th>
+                  <th className="py-2 pr-2">内訳（支出）</th>
+                  <th className="py-2 pr-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => (
+                  <tr key={r.tag} className="border-b align-top">
+                    <td className="py-2 pr-2">
+                      #{r.tag}
+                      <div className="text-xs text-slate-500">{r.from} 〜 {r.to} / {r.count}件</div>
+                    </td>
+                    <td className="py-2 pr-2 text-right">{prettyJPY(r.expense)}</td>
+                    <td className="py-2 pr-2">
+                      <div className="mt-1.5 h-2 rounded-full bg-slate-100">
+                        <div className="h-2 rounded-full bg-amber-400" style={{ width: `${(r.expense / max) * 100}%` }} />
+                      </div>
+                    </td>
+                    <td className="py-2 pr-2 text-right">{r.income ? prettyJPY(r.income) : "-"}</td>
+                    <td className="py-2 pr-2 text-xs text-slate-600">
+                      {r.byCategory.map((c) => `${c.category} ${prettyJPY(c.amount)}`).join(" / ")}
+                    </td>
+                    <td className="py-2 pr-2 text-right">
+                      {/* 期間を指定していなければ、そのタグの最初から最後までを一覧で出す */}
+                      <Button size="sm" variant="outline" onClick={() => onShowList(r.tag, from || r.from, to || r.to)}>
+                        <List className="mr-1 h-4 w-4" />明細
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-slate-500">1つの明細に複数のタグがあると、それぞれのタグに数えます。</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { type Household, payerName } from "@/lib/household";
+import { TRASH_DAYS, type TrashItem, daysLeft } from "@/lib/trash";
+import { prettyJPY } from "@/lib/utils";
+
+type Props = {
+  items: TrashItem[];
+  household: Household;
+  onRestore: (ids: string[]) => void;
+  onPurge: (ids: string[]) => void;
+};
+
+// ====== ゴミ箱 ======
+// 削除した明細を新しい順に並べる。チェックしたものを復元するか、完全に削除する
+export function TrashPanel({ items, household, onRestore, onPurge }: Props) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const list = [...items].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  const ids = list.filter((x) => selected.has(x.id)).map((x) => x.id);
+
+  function toggle(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+  function restore(target: string[]) {
+    onRestore(target);
+    setSelected(new Set());
+  }
+  function purge(target: string[]) {
+    if (!confirm(`${target.length}件を完全に削除します（元に戻せません）。よろしいですか？`)) return;
+    onPurge(target);
+    setSelected(new Set());
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>ゴミ箱（{list.length}件）</CardTitle>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" disabled={!ids.length} onClick={() => restore(ids)}>
+            <RotateCcw className="mr-1 h-4 w-4" />選択を復元
+          </Button>
+          <Button size="sm" variant="destructive" disabled={!list.length} onClick={() => purge(ids.length ? ids : list.map((x) => x.id))}>
+            <Trash2 className="mr-1 h-4 w-4" />{ids.length ? "選択を完全に削除" : "ゴミ箱を空にする"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="mb-2 text-xs text-slate-500">削除した明細は{TRASH_DAYS}日間ここに残り、その後自動で消えます。</p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2 pr-2">
+                  <input
+                    type="checkbox"
+                    aria-label="すべて選択"
+                    checked={list.length > 0 && ids.length === list.length}
+                    onChange={(e) => setSelected(new Set(e.target.checked ? list.map((x) => x.id) : []))}
+                  />
+                </th>
+                <th className="py-2 pr-2">日付</th>
+                <th className="py-2 pr-2">支払者</th>
+                <th className="py-2 pr-2">カテゴリ</th>
+                <th className="py-2 pr-2">メモ</th>
+                <th className="py-2 pr-2 text-right">金額</th>
+                <th className="py-2 pr-2">削除</th>
+                <th className="py-2 pr-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {list.map((x) => (
+                <tr key={x.id} className="border-b hover:bg-slate-50">
+                  <td className="py-2 pr-2">
+                    <input type="checkbox" checked={selected.has(x.id)} onChange={() => toggle(x.id)} />
+                  </td>
+                  <td className="py-2 pr-2">{x.txn.date}</td>
+                  <td className="py-2 pr-2">{payerName(household, x.txn.payer)}</td>
+                  <td className="py-2 pr-2">{x.txn.category}</td>
+                  <td className="py-2 pr-2">{x.txn.memo}</td>
+                  <td className="py-2 pr-2 text-right">{prettyJPY(x.txn.amount)}</td>
+                  <td className="py-2 pr-2 text-xs text-slate-500">
+                    {new Date(x.deletedAt).toLocaleDateString("ja-JP")} {x.reason}（あと{daysLeft(x)}日）
+                  </td>
+                  <td className="py-2 pr-2 text-right">
+                    <Button size="sm" variant="outline" title="復元" onClick={() => restore([x.id])}>
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+              {list.length === 0 && (
+                <tr>
+                  <td className="py-6 text-center text-slate-500" colSpan={8}>ゴミ箱は空です。</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
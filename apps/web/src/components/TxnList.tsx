@@ -0,0 +1,278 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, CalendarDays, Edit3, Trash2, X } from "lucide-react";
+import type { Kind, Txn } from "@/lib/types";
+import { type Household, payerName, payerOptions } from "@/lib/household";
+import type { Receipt } from "@/lib/receipt";
+import { DEFAULT_LIST_QUERY, type ListQuery, type SortKey, hasFilters, isRangeQuery } from "@/lib/listQuery";
+import { parseTags } from "@/lib/tags";
+import { prettyJPY } from "@/lib/utils";
+import { TagInput } from "@/components/TagInput";
+
+const KIND_LABELS: Record<Kind, string> = { expense: "支出", income: "収入", transfer: "精算" };
+
+// Select は空文字を値にできないので「すべて」「変えない」はこの値で表す
+const ALL = "__all__";
+
+/** 一括変更できる項目 */
+export type BulkPatch = Partial<Pick<Txn, "category" | "payer" | "date">>;
+
+type Props = {
+  list: Txn[];             // 絞り込み・並べ替え済み（listQuery.queryTxns）
+  household: Household;
+  categories: string[];
+  tags: string[];          // 絞り込みの候補（collectTags）
+  receiptById: Map<string, Receipt>;
+  month: string;
+  onMonthChange: (month: string) => void;
+  query: ListQuery;
+  onQueryChange: (q: ListQuery) => void;
+  onEdit: (t: Txn) => void;
+  onRemove: (id: string) => void;
+  onBulkUpdate: (ids: string[], patch: BulkPatch) => void;
+  onBulkDelete: (ids: string[]) => void;
+};
+
+const COLUMNS: Array<{ key: SortKey; label: string; right?: boolean }> = [
+  { key: "date", label: "日付" },
+  { key: "payer", label: "支払者" },
+  { key: "category", label: "カテゴリ" },
+  { key: "memo", label: "メモ" },
+  { key: "amount", label: "金額", right: true },
+  { key: "kind", label: "収支" },
+];
+
+// ====== 明細一覧（検索・絞り込み・並べ替え・一括変更） ======
+export function TxnList(props: Props) {
+  const { list, household, categories, receiptById, month, query, onQueryChange } = props;
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkDate, setBulkDate] = useState("");
+  const set = (patch: Partial<ListQuery>) => onQueryChange({ ...query, ...patch });
+  const range = isRangeQuery(query);
+  const tagFilter = parseTags(query.tags);
+  const setTags = (tags: string[]) => set({ tags: tags.join(",") });
+
+  // 絞り込みで見えなくなった行は選択していないものとして扱う
+  const ids = list.filter((t) => selected.has(t.id)).map((t) => t.id);
+  const total = (kind: Kind) => list.filter((t) => t.kind === kind).reduce((s, t) => s + t.amount, 0);
+
+  function sortBy(key: SortKey) {
+    if (query.sort === key) set({ dir: query.dir === "asc" ? "desc" : "asc" });
+    else set({ sort: key, dir: key === "date" || key === "amount" ? "desc" : "asc" });
+  }
+  function toggle(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+  function bulk(patch: BulkPatch) {
+    props.onBulkUpdate(ids, patch);
+    setSelected(new Set());
+  }
+  function bulkDelete() {
+    props.onBulkDelete(ids);
+    setSelected(new Set());
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>明細一覧（{range ? `${query.from || "…"} 〜 ${query.to || "…"}` : month}）</CardTitle>
+        <div className="flex items-center gap-2">
+          <Label className="text-sm">月</Label>
+          <Input
+            type="month"
+            value={month}
+            onChange={(e) => props.onMonthChange(e.target.value)}
+            className="max-w-[160px]"
+            disabled={range}
+            title={range ? "期間を指定しているときは月を使いません" : undefined}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* 絞り込み */}
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2 text-sm">
+          <div className="col-span-2">
+            <Label>メモを検索</Label>
+            <Input value={query.q} onChange={(e) => set({ q: e.target.value })} placeholder="例: スーパー" />
+          </div>
+          <div>
+            <Label>支払者</Label>
+            <Select value={query.payer || ALL} onValueChange={(v) => set({ payer: v === ALL ? "" : v })}>
+              <SelectTrigger><SelectValue>{query.payer ? payerName(household, query.payer) : "すべて"}</SelectValue></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>すべて</SelectItem>
+                {payerOptions(household, query.payer).map((p) => (<SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>カテゴリ</Label>
+            <Select value={query.category || ALL} onValueChange={(v) => set({ category: v === ALL ? "" : v })}>
+              <SelectTrigger><SelectValue>{query.category || "すべて"}</SelectValue></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>すべて</SelectItem>
+                {categories.map((c) => (<SelectItem key={c} value={c}>{c}</SelectItem>))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>収支</Label>
+            <Select value={query.kind || ALL} onValueChange={(v) => set({ kind: v === ALL ? "" : (v as Kind) })}>
+              <SelectTrigger><SelectValue>{query.kind ? KIND_LABELS[query.kind] : "すべて"}</SelectValue></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>すべて</SelectItem>
+                {(Object.keys(KIND_LABELS) as Kind[]).map((k) => (<SelectItem key={k} value={k}>{KIND_LABELS[k]}</SelectItem>))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>金額</Label>
+            <div className="flex items-center gap-1">
+              <Input type="number" inputMode="numeric" value={query.min} onChange={(e) => set({ min: e.target.value })} placeholder="下限" />
+              <span>〜</span>
+              <Input type="number" inputMode="numeric" value={query.max} onChange={(e) => set({ max: e.target.value })} placeholder="上限" />
+            </div>
+          </div>
+          <div className="col-span-2">
+            <Label>期間（月をまたいで探す）</Label>
+            <div className="flex items-center gap-1">
+              <Input type="date" value={query.from} onChange={(e) => set({ from: e.target.value })} />
+              <span>〜</span>
+              <Input type="date" value={query.to} onChange={(e) => set({ to: e.target.value })} />
+            </div>
+          </div>
+          <div className="col-span-2">
+            <Label>タグ（すべてを含む）</Label>
+            <TagInput value={tagFilter} onChange={setTags} suggestions={props.tags} placeholder="例: 旅行" />
+          </div>
+          <div className="col-span-2 flex items-end justify-between gap-2">
+            <div className="text-xs text-slate-600">
+              {list.length}件　支出 {prettyJPY(total("expense"))}　収入 {prettyJPY(total("income"))}
+            </div>
+            {hasFilters(query) && (
+              <Button variant="outline" size="sm" onClick={() => onQueryChange({ ...DEFAULT_LIST_QUERY, sort: query.sort, dir: query.dir })}>
+                <X className="mr-1 h-4 w-4" />条件をクリア
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* 一括変更 */}
+        {ids.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md bg-slate-50 p-2 text-sm">
+            <span className="font-medium">{ids.length}件を選択中</span>
+            <div className="w-40">
+              <Select value={ALL} onValueChange={(v) => v !== ALL && bulk({ category: v })}>
+                <SelectTrigger><SelectValue>カテゴリを変更</SelectValue></SelectTrigger>
+                <SelectContent>
+                  {categories.map((c) => (<SelectItem key={c} value={c}>{c}</SelectItem>))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-40">
+              <Select value={ALL} onValueChange={(v) => v !== ALL && bulk({ payer: v })}>
+                <SelectTrigger><SelectValue>支払者を変更</SelectValue></SelectTrigger>
+                <SelectContent>
+                  {payerOptions(household).map((p) => (<SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-1">
+              <Input type="date" value={bulkDate} onChange={(e) => setBulkDate(e.target.value)} className="w-40" />
+              <Button size="sm" variant="outline" disabled={!bulkDate} onClick={() => bulk({ date: bulkDate })}>
+                <CalendarDays className="mr-1 h-4 w-4" />日付を移動
+              </Button>
+            </div>
+            <Button size="sm" variant="destructive" onClick={bulkDelete}>
+              <Trash2 className="mr-1 h-4 w-4" />削除
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setSelected(new Set())}>選択を解除</Button>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2 pr-2">
+                  <input
+                    type="checkbox"
+                    aria-label="すべて選択"
+                    checked={list.length > 0 && ids.length === list.length}
+                    onChange={(e) => setSelected(new Set(e.target.checked ? list.map((t) => t.id) : []))}
+                  />
+                </th>
+                {COLUMNS.map((c) => (
+                  <th key={c.key} className={`py-2 pr-2 ${c.right ? "text-right" : ""}`}>
+                    <button type="button" className="inline-flex items-center gap-1 hover:text-slate-900" onClick={() => sortBy(c.key)}>
+                      {c.label}
+                      {query.sort === c.key && (query.dir === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+                    </button>
+                  </th>
+                ))}
+                <th className="py-2 pr-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {list.map((t) => (
+                <tr key={t.id} className={`border-b hover:bg-slate-50 ${selected.has(t.id) ? "bg-blue-50/50" : ""}`}>
+                  <td className="py-2 pr-2">
+                    <input type="checkbox" checked={selected.has(t.id)} onChange={() => toggle(t.id)} />
+                  </td>
+                  <td className="py-2 pr-2">{t.date}</td>
+                  <td className="py-2 pr-2">{payerName(household, t.payer)}</td>
+                  <td className="py-2 pr-2">{t.category}</td>
+                  <td className="py-2 pr-2">
+                    {t.memo}
+                    {t.personal && <span className="ml-2 rounded-full bg-slate-100 px-2 text-xs text-slate-500">個人</span>}
+                    {t.recurringId && <span className="ml-2 rounded-full bg-violet-50 px-2 text-xs text-violet-700">定期</span>}
+                    {t.tags?.map((tag) => (
+                      <button
+                        key={tag}
+                        type="button"
+                        className="ml-2 rounded-full bg-amber-50 px-2 text-xs text-amber-800 hover:bg-amber-100"
+                        title="このタグで絞り込む"
+                        onClick={() => !tagFilter.includes(tag) && setTags([...tagFilter, tag])}
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                    {t.receiptId && receiptById.has(t.receiptId) && (
+                      <span className="ml-2 rounded-full bg-blue-50 px-2 text-xs text-blue-700">
+                        {receiptById.get(t.receiptId)!.storeName || "レシート"}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2 text-right">{prettyJPY(t.amount)}</td>
+                  <td className="py-2 pr-2">{KIND_LABELS[t.kind] ?? t.kind}</td>
+                  <td className="py-2 pr-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => props.onEdit(t)}><Edit3 className="h-4 w-4" /></Button>
+                      <Button size="sm" variant="destructive" onClick={() => props.onRemove(t.id)}><Trash2 className="h-4 w-4" /></Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {list.length === 0 && (
+                <tr>
+                  <td className="py-6 text-center text-slate-500" colSpan={8}>
+                    {hasFilters(query) ? "条件に合う明細はありません。" : "この月のデータはありません。レシートを取り込むか、手入力で追加してください。"}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -61,10 +61,10 @@ export function SelectTrigger({ children }: { children: React.ReactNode }) {
   )
 }
 
-/** Placeholder / 選択表示 */
-export function SelectValue({ placeholder }: { placeholder?: string }) {
+/** Placeholder / 選択表示（children を渡すと value の代わりに表示する：id と表示名が異なる場合など） */
+export function SelectValue({ placeholder, children }: { placeholder?: string; children?: React.ReactNode }) {
   const { value } = useSelect()
-  return <span className="text-slate-700">{value ?? <span className="text-slate-500">{placeholder || '選択'}</span>}</span>
+  return <span className="text-slate-700">{value != null ? (children ?? value) : <span className="text-slate-500">{placeholder || '選択'}</span>}</span>
 }
 
 /** ドロップダウン本体（絶対配置・ポータル簡易版） */
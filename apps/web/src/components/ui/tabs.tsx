@@ -10,12 +10,19 @@ const Ctx = createContext<TabsCtx | null>(null);
 
 type TabsProps = {
   defaultValue: string;
+  value?: string;                      // 渡すと親が選択中のタブを持つ（URL に残すときなど）
+  onValueChange?: (v: string) => void;
   children: ReactNode;
   className?: string;
 };
 
-export function Tabs({ defaultValue, children, className }: TabsProps) {
-  const [value, setValue] = useState(defaultValue);
+export function Tabs({ defaultValue, value: controlled, onValueChange, children, className }: TabsProps) {
+  const [inner, setInner] = useState(defaultValue);
+  const value = controlled ?? inner;
+  const setValue = (v: string) => {
+    setInner(v);
+    onValueChange?.(v);
+  };
   return (
     <Ctx.Provider value={{ value, setValue }}>
       <div className={className}>{children}</div>
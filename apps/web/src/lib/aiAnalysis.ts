@@ -0,0 +1,65 @@
+import type { Txn } from "./types";
+import { type Household, payerName } from "./household";
+import { type Budgets, computeBudgetRows, hasBudgets, totalAvailable } from "./budget";
+import { type AnalysisResult, AiError, parseAnalysis, toAiError } from "./aiSchema";
+import { type AnalyzeRequest, analysisMonths } from "./analysisPayload";
+
+// ====== AI 分析（/api/ai/analyze） ======
+
+export type AnalysisContext = {
+  household: Household;
+  budgets: Budgets;
+  monthlyBudget: number;   // カテゴリ別予算がないときの全体予算
+  categories: string[];
+};
+
+/** 対象月と比較用の前月の明細だけを、送る項目に絞って渡す（集計はサーバ側） */
+export function buildAnalyzeRequest(month: string, txns: Txn[], ctx: AnalysisContext): AnalyzeRequest {
+  const months = analysisMonths(month);
+  const inWindow = txns.filter((t) => t.kind !== "transfer" && months.includes(t.date.slice(0, 7)));
+  const useCategoryBudgets = hasBudgets(ctx.budgets);
+
+  const budgets: Record<string, Record<string, number>> = {};
+  if (useCategoryBudgets) {
+    for (const m of months) {
+      const rows = computeBudgetRows(ctx.budgets, txns, m, ctx.categories);
+      if (totalAvailable(rows) > 0) budgets[m] = Object.fromEntries(rows.map((r) => [r.category, r.available]));
+    }
+  }
+
+  return {
+    month,
+    txns: inWindow.map((t) => ({
+      date: t.date,
+      memo: t.memo,
+      category: t.category,
+      amount: t.amount,
+      kind: t.kind === "income" ? "income" : "expense",
+      payer: payerName(ctx.household, t.payer),
+      ...(t.tags?.length ? { tags: t.tags } : {}),
+    })),
+    budgets,
+    ...(!useCategoryBudgets && ctx.monthlyBudget > 0 ? { totalBudget: ctx.monthlyBudget } : {}),
+  };
+}
+
+export async function fetchAnalysis(month: string, txns: Txn[], ctx: AnalysisContext): Promise<AnalysisResult> {
+  let r: Response;
+  try {
+    r = await fetch("/api/ai/analyze", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(buildAnalyzeRequest(month, txns, ctx)),
+    });
+  } catch (e: any) {
+    throw new AiError("network", e?.message ?? String(e));
+  }
+
+  const txt = await r.text();
+  if (!r.ok) throw toAiError(r.status, txt);
+
+  // サーバで検証済みでも、古いサーバやプロキシ経由を考えてもう一度確かめる
+  const { value, errors } = parseAnalysis(txt);
+  if (!value) throw new AiError("invalid_output", "サーバの応答が分析結果の形式ではありません", errors);
+  return value;
+}
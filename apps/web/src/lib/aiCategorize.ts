@@ -0,0 +1,66 @@
+import type { Txn } from "./types";
+import type { StoreLookup } from "./rules";
+import { AiError, toAiError } from "./aiSchema";
+
+// ====== AI によるカテゴリ提案（/api/ai/categorize） ======
+// 未分類・「その他」の支出をまとめて送り、カテゴリ候補と確信度を受け取る。
+// 確信度が低いものは一括承認の対象にせず、手で確認してもらう。
+
+export const UNCATEGORIZED = "その他";
+
+/** これ未満は「要確認」（一括承認しない） */
+export const LOW_CONFIDENCE = 0.6;
+
+// サーバ側の上限（api/ai/categorize.ts の MAX_ITEMS）より小さく分けて送る
+const BATCH_SIZE = 50;
+
+export type CategorySuggestion = {
+  txnId: string;
+  category: string;
+  confidence: number;      // 0..1
+  reason: string;
+};
+
+export const needsCategory = (t: Txn) =>
+  t.kind === "expense" && (!t.category.trim() || t.category === UNCATEGORIZED);
+
+export async function requestCategorySuggestions(
+  txns: Txn[],
+  categories: string[],
+  storeOf?: StoreLookup,
+  onProgress?: (done: number, total: number) => void
+): Promise<CategorySuggestion[]> {
+  const candidates = categories.filter((c) => c !== UNCATEGORIZED);
+  const out: CategorySuggestion[] = [];
+  for (let i = 0; i < txns.length; i += BATCH_SIZE) {
+    const batch = txns.slice(i, i + BATCH_SIZE);
+    let r: Response;
+    try {
+      r = await fetch("/api/ai/categorize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          categories: candidates,
+          items: batch.map((t) => ({
+            id: t.id,
+            date: t.date,
+            memo: t.memo,
+            amount: t.amount,
+            store: storeOf?.(t),
+            category: t.category,
+          })),
+        }),
+      });
+    } catch (e: any) {
+      throw new AiError("network", e?.message ?? String(e));
+    }
+    const txt = await r.text();
+    if (!r.ok) throw toAiError(r.status, txt);
+    const data = JSON.parse(txt) as { suggestions?: Array<{ id: string; category: string; confidence: number; reason?: string }> };
+    for (const s of data.suggestions ?? []) {
+      out.push({ txnId: s.id, category: s.category, confidence: Number(s.confidence) || 0, reason: s.reason ?? "" });
+    }
+    onProgress?.(Math.min(txns.length, i + BATCH_SIZE), txns.length);
+  }
+  return out;
+}
@@ -0,0 +1,166 @@
+// ====== AI のレスポンス定義（分析・カテゴリ提案。API ルートとクライアントで共有） ======
+// api/ai/*.ts からも相対パスで import するので、このファイルでは "@/" エイリアスやブラウザ専用の API を使わない。
+// モデルには JSON Schema で出力形式を指定し、受け取った側（サーバ・クライアントの両方）で実行時にも検証する。
+
+export type AnalysisResult = {
+  summary: string;
+  insights: string[];
+  warnings: string[];
+  actions: string[];
+};
+
+/** OpenAI Structured Outputs（strict）用の JSON Schema */
+export const ANALYSIS_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    summary: { type: "string", description: "1〜2文の要約" },
+    insights: { type: "array", items: { type: "string" }, description: "数値根拠のある洞察（3〜5個）" },
+    warnings: { type: "array", items: { type: "string" }, description: "注意点（必要なときのみ。なければ空配列）" },
+    actions: { type: "array", items: { type: "string" }, description: "実行可能な提案（3〜5個）" },
+  },
+  required: ["summary", "insights", "warnings", "actions"],
+  additionalProperties: false,
+} as const;
+
+export type Validation<T> = { value: T | null; errors: string[] };
+
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((x) => typeof x === "string");
+
+/** 実行時の検証。余分なキーは落とし、足りない・型が違うものはエラーにする */
+export function validateAnalysis(input: unknown): Validation<AnalysisResult> {
+  const errors: string[] = [];
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { value: null, errors: ["オブジェクトではありません"] };
+  }
+  const o = input as Record<string, unknown>;
+  if (typeof o.summary !== "string" || !o.summary.trim()) errors.push("summary が文字列ではありません");
+  for (const key of ["insights", "warnings", "actions"] as const) {
+    if (!isStringArray(o[key])) errors.push(`${key} が文字列の配列ではありません`);
+  }
+  if (errors.length) return { value: null, errors };
+  return {
+    value: {
+      summary: (o.summary as string).trim(),
+      insights: o.insights as string[],
+      warnings: o.warnings as string[],
+      actions: o.actions as string[],
+    },
+    errors,
+  };
+}
+
+/** JSON 文字列をパースして検証（コードフェンスで囲まれていても読む） */
+function parseWith<T>(text: string, validate: (input: unknown) => Validation<T>): Validation<T> {
+  const body = String(text).trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return { value: null, errors: ["JSON として読めません"] };
+  }
+  return validate(json);
+}
+
+export const parseAnalysis = (text: string) => parseWith(text, validateAnalysis);
+
+// ====== カテゴリ提案（/api/ai/categorize） ======
+// カテゴリ一覧にあるか・入力にある id かはここでは見ない（API ルートで照らし合わせて落とす）。
+
+export type CategorizeResult = {
+  results: Array<{ id: string; category: string; confidence: number; reason: string }>;
+};
+
+export const CATEGORIZE_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          category: { type: "string", description: "カテゴリ一覧の中から 1 つ" },
+          confidence: { type: "number", description: "分類の確からしさ（0〜1）" },
+          reason: { type: "string", description: "20文字程度の理由" },
+        },
+        required: ["id", "category", "confidence", "reason"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["results"],
+  additionalProperties: false,
+} as const;
+
+/** results が配列で、各要素に id・category（文字列）と confidence（数値）があること。confidence は 0〜1 に収める */
+export function validateCategorize(input: unknown): Validation<CategorizeResult> {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { value: null, errors: ["オブジェクトではありません"] };
+  }
+  const results = (input as Record<string, unknown>).results;
+  if (!Array.isArray(results)) return { value: null, errors: ["results が配列ではありません"] };
+  const errors: string[] = [];
+  const value: CategorizeResult = { results: [] };
+  results.forEach((x, i) => {
+    const o = (typeof x === "object" && x !== null ? x : {}) as Record<string, unknown>;
+    if (typeof o.id !== "string" || typeof o.category !== "string" || typeof o.confidence !== "number") {
+      errors.push(`results[${i}] に id・category・confidence がありません`);
+      return;
+    }
+    value.results.push({
+      id: o.id,
+      category: o.category.trim(),
+      confidence: Math.min(1, Math.max(0, o.confidence)),
+      reason: typeof o.reason === "string" ? o.reason : "",
+    });
+  });
+  return errors.length ? { value: null, errors } : { value, errors };
+}
+
+export const parseCategorize = (text: string) => parseWith(text, validateCategorize);
+
+// ====== エラー ======
+// API ルートは { error, code, details? } を返し、クライアントは AiError として UI に出す。
+
+export type AiErrorCode =
+  | "bad_request"     // 入力が足りない・不正
+  | "invalid_output"  // モデルの出力が形式に合わない（再試行しても）
+  | "upstream"        // LLM 側のエラー
+  | "timeout"         // LLM が時間内に応答しない
+  | "network"         // サーバに届かない
+  | "http";           // その他の HTTP エラー
+
+export const AI_ERROR_LABELS: Record<AiErrorCode, string> = {
+  bad_request: "リクエストが不正です",
+  invalid_output: "AIの出力を読み取れませんでした",
+  upstream: "AIサービスでエラーが発生しました",
+  timeout: "AIの応答がタイムアウトしました",
+  network: "サーバに接続できませんでした",
+  http: "サーバでエラーが発生しました",
+};
+
+export type AiErrorBody = { error: string; code: AiErrorCode; details?: string[] };
+
+export class AiError extends Error {
+  code: AiErrorCode;
+  details: string[];
+  constructor(code: AiErrorCode, message: string, details: string[] = []) {
+    super(message);
+    this.name = "AiError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+const AI_ERROR_CODES = Object.keys(AI_ERROR_LABELS) as AiErrorCode[];
+
+/** エラー応答の本文を AiError にする（古い形式 { error } や JSON 以外にも対応） */
+export function toAiError(status: number, text: string): AiError {
+  try {
+    const j = JSON.parse(text) as Partial<AiErrorBody>;
+    const code = AI_ERROR_CODES.includes(j?.code as AiErrorCode) ? (j.code as AiErrorCode) : "http";
+    return new AiError(code, j?.error || `HTTP ${status}`, Array.isArray(j?.details) ? j.details : []);
+  } catch {
+    return new AiError("http", text || `HTTP ${status}`);
+  }
+}
@@ -0,0 +1,155 @@
+// ====== AI 分析に渡す集計（API ルートとクライアントで共有） ======
+// クライアントは対象月と前 3 か月分の明細だけを送り、サーバがここで月ごとの集計を作ってモデルに渡す。
+// 生の明細を丸ごと渡さないので、データが増えてもトークン数は月の数とカテゴリ数でほぼ決まる。
+// api/ai/analyze.ts からも相対パスで import するので "@/" エイリアスは使わない。
+
+/** 比較に使う前月の数 */
+export const PREVIOUS_MONTHS = 3;
+
+/** 対象月で大きい順に挙げる明細の数 */
+export const TOP_ITEMS = 10;
+
+export type AnalyzeTxn = {
+  date: string;            // YYYY-MM-DD
+  memo: string;
+  category: string;
+  amount: number;
+  kind: "expense" | "income";
+  payer: string;           // 支払者の表示名
+  tags?: string[];         // 旅行・引っ越しなど、カテゴリをまたぐまとまり
+};
+
+export type AnalyzeRequest = {
+  month: string;           // YYYY-MM
+  txns: AnalyzeTxn[];      // analysisMonths(month) の範囲の明細
+  budgets?: Record<string, Record<string, number>>; // YYYY-MM → カテゴリ → 使える額（繰越込み）
+  totalBudget?: number;    // カテゴリ別予算がないときの対象月の全体予算
+};
+
+/** 全体予算の行に使うカテゴリ名 */
+export const TOTAL_BUDGET_LABEL = "（全体）";
+
+export type BudgetLine = {
+  category: string;
+  budget: number;
+  spent: number;
+  ratio: number;           // spent / budget（小数 2 桁）
+  status: "ok" | "over";
+};
+
+export type MonthAggregate = {
+  month: string;
+  income: number;
+  expense: number;
+  count: number;
+  byCategory: Record<string, number>; // 支出のみ
+  byPayer: Record<string, number>;    // 支出のみ
+  byTag: Record<string, number>;      // 支出のみ。複数タグの明細はそれぞれに数える
+};
+
+export type CategoryChange = {
+  category: string;
+  current: number;
+  previousMonth: number;   // 前月
+  previousAverage: number; // 前 3 か月の平均
+  diff: number;
+  ratio: number | null;    // current / previousAverage（前月までが 0 なら null）
+};
+
+export type AnalysisAggregates = {
+  target: MonthAggregate & {
+    topItems: Array<Pick<AnalyzeTxn, "date" | "memo" | "category" | "amount" | "payer" | "tags">>;
+    budget: BudgetLine[];
+  };
+  previous: MonthAggregate[];          // 新しい順
+  categoryChanges: CategoryChange[];   // 増減の大きい順
+};
+
+export const isMonth = (m: unknown): m is string => typeof m === "string" && /^\d{4}-(0[1-9]|1[0-2])$/.test(m);
+
+const shiftMonth = (month: string, n: number) => {
+  const [y, m] = month.split("-").map(Number);
+  const d = new Date(Date.UTC(y, m - 1 + n, 1));
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, "0")}`;
+};
+
+/** 対象月と比較用の前月（新しい順） */
+export function analysisMonths(month: string): string[] {
+  return Array.from({ length: PREVIOUS_MONTHS + 1 }, (_, i) => shiftMonth(month, -i));
+}
+
+const add = (rec: Record<string, number>, key: string, v: number) => {
+  rec[key] = (rec[key] || 0) + v;
+};
+
+// 古いクライアントや壊れた値でも落ちないよう、文字列のタグだけを重複なしで使う
+const cleanTags = (tags: unknown): string[] =>
+  Array.isArray(tags) ? Array.from(new Set(tags.filter((t): t is string => typeof t === "string" && !!t.trim()).map((t) => t.trim().slice(0, 20)))) : [];
+
+function aggregateMonth(month: string, txns: AnalyzeTxn[]): MonthAggregate {
+  const agg: MonthAggregate = { month, income: 0, expense: 0, count: 0, byCategory: {}, byPayer: {}, byTag: {} };
+  for (const t of txns) {
+    // 振替など収支以外は数えない
+    if (!t.date.startsWith(month) || (t.kind !== "income" && t.kind !== "expense")) continue;
+    agg.count++;
+    if (t.kind === "income") {
+      agg.income += t.amount;
+    } else {
+      agg.expense += t.amount;
+      add(agg.byCategory, t.category || "未分類", t.amount);
+      add(agg.byPayer, t.payer || "不明", t.amount);
+      for (const tag of cleanTags(t.tags)) add(agg.byTag, tag, t.amount);
+    }
+  }
+  return agg;
+}
+
+const budgetLine = (category: string, budget: number, spent: number): BudgetLine => ({
+  category,
+  budget,
+  spent,
+  ratio: Math.round((spent / budget) * 100) / 100,
+  status: spent > budget ? "over" : "ok",
+});
+
+export function buildAggregates(req: AnalyzeRequest): AnalysisAggregates {
+  const [month, ...prevMonths] = analysisMonths(req.month);
+  const txns = req.txns.filter((t) => t && typeof t.amount === "number" && Number.isFinite(t.amount) && typeof t.date === "string");
+
+  const current = aggregateMonth(month, txns);
+  const previous = prevMonths.map((m) => aggregateMonth(m, txns));
+
+  const topItems = txns
+    .filter((t) => t.kind === "expense" && t.date.startsWith(month))
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, TOP_ITEMS)
+    .map(({ date, memo, category, amount, payer, tags }) => {
+      const cleaned = cleanTags(tags);
+      return { date, memo: String(memo).slice(0, 40), category, amount, payer, ...(cleaned.length ? { tags: cleaned } : {}) };
+    });
+
+  const budget: BudgetLine[] = Object.entries(req.budgets?.[month] ?? {})
+    .filter(([, b]) => b > 0)
+    .map(([category, b]) => {
+      const spent = current.byCategory[category] || 0;
+      return budgetLine(category, b, spent);
+    });
+  if (!budget.length && req.totalBudget && req.totalBudget > 0) {
+    budget.push(budgetLine(TOTAL_BUDGET_LABEL, req.totalBudget, current.expense));
+  }
+
+  // 前月までにデータがある月だけで平均を取る
+  const withData = previous.filter((p) => p.count > 0);
+  const categories = new Set([...Object.keys(current.byCategory), ...withData.flatMap((p) => Object.keys(p.byCategory))]);
+  const categoryChanges: CategoryChange[] = Array.from(categories)
+    .map((category) => {
+      const cur = current.byCategory[category] || 0;
+      const avg = withData.length
+        ? Math.round(withData.reduce((s, p) => s + (p.byCategory[category] || 0), 0) / withData.length)
+        : 0;
+      return { category, current: cur, previousMonth: previous[0]?.byCategory[category] || 0, previousAverage: avg, diff: cur - avg, ratio: avg ? Math.round((cur / avg) * 100) / 100 : null };
+    })
+    .sort((a, b) => Math.abs(b.diff) - Math.abs(a.diff));
+
+  return { target: { ...current, topItems, budget }, previous, categoryChanges };
+}
@@ -0,0 +1,211 @@
+import { type RecordStore, STORES } from "./db";
+import type { Txn } from "./types";
+import { allSettings, getRecords, putSetting, setRecords } from "./repository";
+import { type TrashItem, addToTrash } from "./trash";
+
+// ====== JSON バックアップ ======
+// 明細・レシート・ゴミ箱と、保存している設定（予算・カテゴリ・世帯・ルールなど）を 1 つの JSON にまとめる。
+// 形式が変わったら BACKUP_VERSION を上げ、UPGRADES に古い版からの変換を足す（読み込みは古い版も受け付ける）。
+// パスフレーズを付けると、ブラウザの中（WebCrypto）で PBKDF2 → AES-GCM で暗号化する。パスフレーズはどこにも保存しない。
+
+export const BACKUP_FORMAT = "kakeibo-backup";
+export const BACKUP_VERSION = 1;
+
+// 端末ごとの状態はバックアップに含めない（別の端末に戻すと壊れる）
+const DEVICE_SETTINGS = new Set(["sync"]);
+
+export type BackupData = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;       // ISO 8601
+  records: Partial<Record<RecordStore, Array<{ id: string }>>>;
+  settings: Record<string, unknown>;
+};
+
+type EncryptedBackup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  encrypted: { alg: "AES-GCM"; kdf: "PBKDF2-SHA256"; iterations: number; salt: string; iv: string; data: string };
+};
+
+export type BackupErrorCode = "format" | "version" | "passphrase_required" | "passphrase";
+
+export const BACKUP_ERROR_LABELS: Record<BackupErrorCode, string> = {
+  format: "バックアップのファイルではありません",
+  version: "このアプリより新しい形式のバックアップです",
+  passphrase_required: "暗号化されています。パスフレーズを入力してください",
+  passphrase: "パスフレーズが違うか、ファイルが壊れています",
+};
+
+export class BackupError extends Error {
+  code: BackupErrorCode;
+  constructor(code: BackupErrorCode, message = BACKUP_ERROR_LABELS[code]) {
+    super(message);
+    this.name = "BackupError";
+    this.code = code;
+  }
+}
+
+// 古い版 → 次の版への変換（version: n のものを n + 1 にする）
+const UPGRADES: Record<number, (b: BackupData) => BackupData> = {};
+
+// ====== 作る ======
+export function createBackup(now = new Date()): BackupData {
+  const records: BackupData["records"] = {};
+  for (const name of Object.values(STORES)) records[name] = getRecords<{ id: string }>(name);
+  const settings = Object.fromEntries(Object.entries(allSettings()).filter(([k]) => !DEVICE_SETTINGS.has(k)));
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: now.toISOString(), records, settings };
+}
+
+export async function serializeBackup(b: BackupData, passphrase?: string): Promise<string> {
+  if (!passphrase) return JSON.stringify(b);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(JSON.stringify(b)));
+  const out: EncryptedBackup = {
+    format: BACKUP_FORMAT,
+    version: b.version,
+    encrypted: { alg: "AES-GCM", kdf: "PBKDF2-SHA256", iterations: PBKDF2_ITERATIONS, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) },
+  };
+  return JSON.stringify(out);
+}
+
+export const backupFilename = (b: BackupData) => `kakeibo-backup-${b.createdAt.slice(0, 10).replace(/-/g, "")}.json`;
+
+// ====== 読む ======
+/** 暗号化されているか（パスフレーズ欄を出すかどうか） */
+export function isEncryptedBackup(text: string): boolean {
+  try {
+    return !!JSON.parse(text)?.encrypted;
+  } catch {
+    return false;
+  }
+}
+
+export async function parseBackup(text: string, passphrase?: string): Promise<BackupData> {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError("format");
+  }
+  if (raw?.format !== BACKUP_FORMAT) throw new BackupError("format");
+  if (raw.encrypted) {
+    if (!passphrase) throw new BackupError("passphrase_required");
+    const e = raw.encrypted;
+    try {
+      const key = await deriveKey(passphrase, fromBase64(e.salt), e.iterations);
+      const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(e.iv) }, key, fromBase64(e.data));
+      raw = JSON.parse(new TextDecoder().decode(plain));
+    } catch {
+      throw new BackupError("passphrase");
+    }
+  }
+  if (typeof raw.version !== "number" || raw.version > BACKUP_VERSION) throw new BackupError("version");
+  if (typeof raw.records !== "object" || typeof raw.settings !== "object" || !raw.records || !raw.settings) throw new BackupError("format");
+  let b = raw as BackupData;
+  while (b.version < BACKUP_VERSION) {
+    const up = UPGRADES[b.version];
+    if (!up) throw new BackupError("version", `v${b.version} のバックアップは読み込めません`);
+    b = up(b);
+  }
+  return b;
+}
+
+// ====== 差分 ======
+export type RecordsDiff = { added: number; changed: number; missing: number; same: number };
+
+export type BackupDiff = {
+  records: Partial<Record<RecordStore, RecordsDiff>>;
+  settings: { added: string[]; changed: string[] };   // バックアップで増える・変わる設定のキー
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** 手元と比べる。missing は手元にだけあるもの（置き換えると消える） */
+export function diffBackup(b: BackupData): BackupDiff {
+  const records: BackupDiff["records"] = {};
+  for (const name of Object.values(STORES)) {
+    const local = new Map(getRecords<{ id: string }>(name).map((r) => [r.id, r]));
+    const d: RecordsDiff = { added: 0, changed: 0, missing: 0, same: 0 };
+    for (const r of b.records[name] ?? []) {
+      const cur = local.get(r.id);
+      if (!cur) d.added++;
+      else if (same(cur, r)) d.same++;
+      else d.changed++;
+      local.delete(r.id);
+    }
+    d.missing = local.size;
+    records[name] = d;
+  }
+  const current = allSettings();
+  const settings: BackupDiff["settings"] = { added: [], changed: [] };
+  for (const [k, v] of Object.entries(b.settings)) {
+    if (DEVICE_SETTINGS.has(k)) continue;
+    if (!(k in current)) settings.added.push(k);
+    else if (!same(current[k], v)) settings.changed.push(k);
+  }
+  return { records, settings };
+}
+
+// ====== 戻す ======
+// replace: 手元をバックアップの内容にする（手元にだけある明細などは消える。バックアップにない設定はそのまま）
+// merge:   手元にないものを足す。両方にあるものは modifiedAt が新しい方、わからなければ手元を残す。設定は手元にないものだけ足す
+export type RestoreMode = "merge" | "replace";
+
+type Rec = { id: string; modifiedAt?: string };
+
+function mergeRecords(local: Rec[], incoming: Rec[]): Rec[] {
+  const byId = new Map(incoming.map((r) => [r.id, r]));
+  const kept = local.map((r) => {
+    const x = byId.get(r.id);
+    byId.delete(r.id);
+    return x && x.modifiedAt && (!r.modifiedAt || x.modifiedAt > r.modifiedAt) ? x : r;
+  });
+  return [...byId.values(), ...kept];
+}
+
+/** 画面での変更と同じく通知するので、同期サーバにもそのまま送られる。置き換えで消える明細はゴミ箱に入れる */
+export function restoreBackup(b: BackupData, mode: RestoreMode) {
+  const incomingIds = new Set((b.records.txns ?? []).map((t) => t.id));
+  const dropped = mode === "replace" && b.records.txns ? getRecords<Txn>(STORES.txns).filter((t) => !incomingIds.has(t.id)) : [];
+  for (const name of Object.values(STORES)) {
+    // 古いバックアップにないストアは手元のまま
+    if (!b.records[name]) continue;
+    const incoming = b.records[name] as Rec[];
+    setRecords<Rec>(name, (prev) => (mode === "replace" ? incoming : mergeRecords(prev, incoming)), { notify: true });
+  }
+  if (dropped.length) setRecords<TrashItem>(STORES.trash, (prev) => addToTrash(prev, dropped, "バックアップから復元"));
+  const current = allSettings();
+  for (const [k, v] of Object.entries(b.settings)) {
+    if (DEVICE_SETTINGS.has(k)) continue;
+    if (mode === "merge" && k in current) continue;
+    if (!same(current[k], v)) putSetting(k, v, { notify: true });
+  }
+}
+
+// ====== 暗号化 ======
+const PBKDF2_ITERATIONS = 310_000;
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const base = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    base,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let s = "";
+  // 大きな配列を一度に渡すと引数の上限を超えるので分けて変換する
+  for (let i = 0; i < bytes.length; i += 0x8000) s += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(s);
+}
+
+function fromBase64(s: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+}
@@ -0,0 +1,129 @@
+import type { Txn } from "./types";
+
+// ====== カテゴリ別の月予算 ======
+// 毎月の既定額をカテゴリごとに持ち、特定の月だけ額を変えることもできる。
+// 繰越（封筒方式）を有効にしたカテゴリは、前月までの残り（使い過ぎならマイナス）が翌月に持ち越される。
+
+export type CategoryBudget = {
+  amount: number;          // 毎月の既定額
+  carryOver: boolean;      // 残り・超過を翌月に持ち越す
+  since: string;           // 繰越の起点になる月（YYYY-MM）
+};
+
+export type Budgets = {
+  categories: Record<string, CategoryBudget>;
+  months: Record<string, Record<string, number>>; // YYYY-MM → カテゴリ → その月だけの額
+};
+
+export const EMPTY_BUDGETS: Budgets = { categories: {}, months: {} };
+
+export type BudgetStatus = "ok" | "trending" | "over";
+
+export type BudgetRow = {
+  category: string;
+  base: number;            // その月の予算（既定額 or 月ごとの額）
+  carry: number;           // 前月までの繰越（マイナス = 超過分）
+  available: number;       // base + carry
+  spent: number;
+  remaining: number;       // available - spent
+  projected: number;       // 今のペースで月末までに使う見込み
+  status: BudgetStatus;
+};
+
+const nextMonth = (month: string) => {
+  const [y, m] = month.split("-").map(Number);
+  return m === 12 ? `${y + 1}-01` : `${y}-${String(m + 1).padStart(2, "0")}`;
+};
+
+const daysInMonth = (month: string) => {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(y, m, 0).getDate();
+};
+
+export const hasBudgets = (b: Budgets) =>
+  Object.values(b.categories).some((c) => c.amount > 0) ||
+  Object.values(b.months).some((m) => Object.values(m).some((v) => v > 0));
+
+/** その月の予算額（繰越を含まない） */
+export function budgetFor(b: Budgets, category: string, month: string): number {
+  return b.months[month]?.[category] ?? b.categories[category]?.amount ?? 0;
+}
+
+/** カテゴリ × 月 の支出合計 */
+function spentByMonth(txns: Txn[], category: string): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const t of txns) {
+    if (t.kind !== "expense" || t.category !== category) continue;
+    const m = t.date.slice(0, 7);
+    out[m] = (out[m] || 0) + t.amount;
+  }
+  return out;
+}
+
+/** month の前月までに積み上がった繰越額 */
+function carryInto(b: Budgets, category: string, month: string, spent: Record<string, number>): number {
+  const cfg = b.categories[category];
+  if (!cfg?.carryOver || !cfg.since || cfg.since >= month) return 0;
+  let carry = 0;
+  for (let m = cfg.since; m < month; m = nextMonth(m)) {
+    carry += budgetFor(b, category, m) - (spent[m] || 0);
+  }
+  return carry;
+}
+
+/**
+ * 予算のあるカテゴリ（または予算はないがその月に支出があるカテゴリ）の予算対実績。
+ * today を含む月はその日までのペースから月末の見込みを出し、見込みが予算を超えるものを "trending" にする。
+ */
+export function computeBudgetRows(b: Budgets, txns: Txn[], month: string, categories: string[], today = new Date()): BudgetRow[] {
+  const todayMonth = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, "0")}`;
+  const days = daysInMonth(month);
+  const elapsed = month === todayMonth ? today.getDate() : month < todayMonth ? days : 0;
+
+  const rows: BudgetRow[] = [];
+  for (const category of categories) {
+    const spentMap = spentByMonth(txns, category);
+    const base = budgetFor(b, category, month);
+    const carry = carryInto(b, category, month, spentMap);
+    const spent = spentMap[month] || 0;
+    if (!base && !carry && !spent && !b.categories[category]) continue;
+
+    const available = base + carry;
+    const projected = elapsed > 0 && elapsed < days ? Math.round((spent / elapsed) * days) : spent;
+    const budgeted = base > 0 || !!b.categories[category];
+    const status: BudgetStatus = !budgeted
+      ? "ok"
+      : spent > available
+        ? "over"
+        : projected > available
+          ? "trending"
+          : "ok";
+    rows.push({ category, base, carry, available, spent, remaining: available - spent, projected, status });
+  }
+  return rows;
+}
+
+/** 月全体の予算（カテゴリ予算の合計。繰越を含む） */
+export const totalAvailable = (rows: BudgetRow[]) => rows.reduce((s, r) => s + Math.max(0, r.available), 0);
+
+// ====== 編集 ======
+
+export function setCategoryBudget(b: Budgets, category: string, patch: Partial<CategoryBudget>, month: string): Budgets {
+  const prev = b.categories[category] ?? { amount: 0, carryOver: false, since: month };
+  const next = { ...prev, ...patch };
+  // 繰越を有効にした月から数え始める
+  if (patch.carryOver && !prev.carryOver) next.since = month;
+  const categories = { ...b.categories, [category]: next };
+  if (!next.amount && !next.carryOver) delete categories[category];
+  return { ...b, categories };
+}
+
+/** 特定の月だけ額を変える（null で既定額に戻す） */
+export function setMonthBudget(b: Budgets, category: string, month: string, amount: number | null): Budgets {
+  const m = { ...(b.months[month] ?? {}) };
+  if (amount == null) delete m[category];
+  else m[category] = amount;
+  const months = { ...b.months, [month]: m };
+  if (!Object.keys(m).length) delete months[month];
+  return { ...b, months };
+}
@@ -0,0 +1,414 @@
+import type { Kind, Txn } from "./types";
+import { parseTags } from "./tags";
+import { randomId } from "./utils";
+
+// ====== CSV 読み込み（RFC 4180） ======
+
+export type CsvEncoding = "auto" | "utf-8" | "shift_jis";
+
+/** バイト列を文字列に。auto は BOM → UTF-8（厳密）→ Shift_JIS の順に試す */
+export function decodeCsvBytes(buf: ArrayBuffer, encoding: CsvEncoding = "auto"): string {
+  const bytes = new Uint8Array(buf);
+  if (encoding === "shift_jis") return new TextDecoder("shift_jis").decode(bytes);
+  if (encoding === "utf-8") return new TextDecoder("utf-8").decode(bytes).replace(/^\uFEFF/, "");
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder("utf-8").decode(bytes.subarray(3));
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder("shift_jis").decode(bytes);
+  }
+}
+
+/** RFC 4180 準拠のパース（"" エスケープ・クォート内の改行/カンマ・CRLF に対応） */
+export function parseCSV(text: string): string[][] {
+  return parseCSVWithLines(text).rows;
+}
+
+/**
+ * parseCSV と同じだが、各行が元ファイルの何行目から始まるか（1始まり）も返す。
+ * 空行を捨てたりクォート内で改行したりしても、エラー表示の行番号がファイルとずれないように
+ */
+export function parseCSVWithLines(text: string): { rows: string[][]; lines: number[] } {
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowStart = 1;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        if (c === "\n" || (c === "\r" && text[i + 1] !== "\n")) line++;
+        field += c;
+      }
+      continue;
+    }
+    if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      lines.push(rowStart);
+      row = [];
+      field = "";
+      rowStart = ++line;
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+    lines.push(rowStart);
+  }
+  // 空行は捨てる（行番号は元のまま持っていく）
+  const keep = rows.map((r) => r.some((f) => f.trim() !== ""));
+  return { rows: rows.filter((_, i) => keep[i]), lines: lines.filter((_, i) => keep[i]) };
+}
+
+// ====== 値の正規化 ======
+
+/** 2026/10/1・2026-10-01・20261001・2026年10月1日 → YYYY-MM-DD。読めなければ null */
+export function parseDateCell(raw: string): string | null {
+  const v = raw.trim().replace(/[０-９]/g, (d) => String.fromCharCode(d.charCodeAt(0) - 0xfee0));
+  let m = v.match(/^(\d{4})[/\-.年](\d{1,2})[/\-.月](\d{1,2})日?/);
+  if (!m) m = v.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!m) return null;
+  const [, y, mo, d] = m;
+  const iso = `${y}-${mo.padStart(2, "0")}-${d.padStart(2, "0")}`;
+  return Number.isNaN(Date.parse(iso)) ? null : iso;
+}
+
+/** ¥1,234・1,234円・-1234・△1,234・(1,234) → 数値。空欄は null */
+export function parseAmountCell(raw: string): number | null {
+  let v = raw.trim().replace(/[０-９]/g, (d) => String.fromCharCode(d.charCodeAt(0) - 0xfee0));
+  if (!v) return null;
+  let neg = false;
+  if (/^[△▲-]/.test(v) || /^\(.*\)$/.test(v)) neg = true;
+  v = v.replace(/[^\d.]/g, "");
+  if (!v) return null;
+  const n = Number(v);
+  if (!Number.isFinite(n)) return null;
+  return neg ? -n : n;
+}
+
+// ====== 列マッピング（プロファイル） ======
+
+export type CsvColumns = {
+  date: number;
+  memo: number;
+  amount?: number;         // 1列で金額（符号で収支を判定）
+  withdrawal?: number;     // 出金（支出）列
+  deposit?: number;        // 入金（収入）列
+  category?: number;
+};
+
+export type CsvProfile = {
+  id: string;
+  name: string;
+  encoding: CsvEncoding;
+  skipRows: number;        // 先頭の読み飛ばし行（見出しより前の口座情報など）
+  hasHeader: boolean;
+  columns: CsvColumns;
+  // amount 列の符号: "expense-positive" = 正が支出（カード明細）, "expense-negative" = 負が支出（通帳）
+  sign: "expense-positive" | "expense-negative";
+  payer?: string;          // 取り込む明細の支払者（Member.id）
+  category?: string;       // 既定カテゴリ
+  builtin?: boolean;
+};
+
+export const BUILTIN_PROFILES: CsvProfile[] = [
+  {
+    id: "builtin.bank",
+    name: "銀行明細（日付・摘要・出金・入金）",
+    encoding: "auto",
+    skipRows: 0,
+    hasHeader: true,
+    columns: { date: 0, memo: 1, withdrawal: 2, deposit: 3 },
+    sign: "expense-positive",
+    builtin: true,
+  },
+  {
+    id: "builtin.card",
+    name: "カード明細（利用日・利用店名・利用金額）",
+    encoding: "auto",
+    skipRows: 0,
+    hasHeader: true,
+    columns: { date: 0, memo: 1, amount: 2 },
+    sign: "expense-positive",
+    builtin: true,
+  },
+];
+
+const HEADER_HINTS: Array<[keyof CsvColumns, RegExp]> = [
+  ["date", /^(日付|年月日|取引日|利用日|ご利用日|お取引日|利用年月日|date)$/i],
+  ["memo", /(摘要|内容|利用店名|ご利用先|利用先|お取引内容|取引内容|店名|memo|description)/i],
+  ["withdrawal", /(出金|お支払|お引出|引出|支払金額|withdrawal)/i],
+  ["deposit", /(入金|お預入|お預り|預入|deposit)/i],
+  ["amount", /(金額|利用金額|ご利用金額|amount)/i],
+  ["category", /^(カテゴリ|分類|category)$/i],
+];
+
+/** 見出し行から列を推定する（見つからなければ null → 手動マッピング） */
+export function guessColumns(header: string[]): CsvColumns | null {
+  const cols: Partial<CsvColumns> = {};
+  header.forEach((h, i) => {
+    const name = h.trim();
+    for (const [key, re] of HEADER_HINTS) {
+      if (cols[key] == null && re.test(name)) {
+        cols[key] = i;
+        break;
+      }
+    }
+  });
+  if (cols.date == null || cols.memo == null) return null;
+  if (cols.amount == null && cols.withdrawal == null && cols.deposit == null) return null;
+  return cols as CsvColumns;
+}
+
+/** 見出し行を探す（口座情報などの前置き行を読み飛ばすため） */
+export function findHeaderRow(rows: string[][], maxScan = 10): number {
+  for (let i = 0; i < Math.min(rows.length, maxScan); i++) {
+    if (guessColumns(rows[i])) return i;
+  }
+  return -1;
+}
+
+export type CsvRowResult = {
+  line: number;            // 元ファイルの行番号（1始まり）
+  cells: string[];
+  txn: Txn | null;         // 読めなかった行は null（理由は reason）
+  reason?: string;
+};
+
+/** lines は parseCSVWithLines の行番号（rows と同じ並び） */
+export function applyProfile(
+  rows: string[][],
+  lines: number[],
+  profile: CsvProfile,
+  fallback: { payer: string; category: string }
+): CsvRowResult[] {
+  const start = profile.skipRows + (profile.hasHeader ? 1 : 0);
+  const c = profile.columns;
+  const cell = (r: string[], i?: number) => (i == null ? "" : (r[i] ?? ""));
+
+  return rows.slice(start).map((r, idx): CsvRowResult => {
+    const line = lines[start + idx];
+    const date = parseDateCell(cell(r, c.date));
+    if (!date) return { line, cells: r, txn: null, reason: "日付を読めません" };
+
+    let amount: number | null = null;
+    let kind: Kind = "expense";
+    if (c.withdrawal != null || c.deposit != null) {
+      const w = parseAmountCell(cell(r, c.withdrawal));
+      const d = parseAmountCell(cell(r, c.deposit));
+      if (w) {
+        amount = Math.abs(w);
+      } else if (d) {
+        amount = Math.abs(d);
+        kind = "income";
+      }
+    }
+    if (amount == null && c.amount != null) {
+      const a = parseAmountCell(cell(r, c.amount));
+      if (a) {
+        const isExpense = profile.sign === "expense-positive" ? a > 0 : a < 0;
+        amount = Math.abs(a);
+        kind = isExpense ? "expense" : "income";
+      }
+    }
+    if (!amount) return { line, cells: r, txn: null, reason: "金額を読めません" };
+
+    const memo = cell(r, c.memo).replace(/\s+/g, " ").trim();
+    return {
+      line,
+      cells: r,
+      txn: {
+        id: randomId(),
+        date,
+        payer: profile.payer || fallback.payer,
+        category: cell(r, c.category).trim() || profile.category || fallback.category,
+        memo,
+        amount,
+        kind,
+      },
+    };
+  });
+}
+
+// ====== CSV 書き出し ======
+
+/** RFC 4180 のフィールド。カンマ・ダブルクォート・改行・前後の空白を含む場合はクォートする */
+export function csvField(v: unknown): string {
+  const s = v == null ? "" : String(v);
+  return /[",\r\n]|^\s|\s$/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export const toCSV = (rows: unknown[][]) => rows.map((r) => r.map(csvField).join(",")).join("\r\n") + "\r\n";
+
+export type ExportEncoding = "utf-8-bom" | "shift_jis";
+
+let sjisTable: Map<string, number[]> | null = null;
+
+/** TextDecoder("shift_jis") から逆引き表を作る（初回のみ、ブラウザに SJIS エンコーダがないため） */
+function shiftJISTable() {
+  if (sjisTable) return sjisTable;
+  const table = new Map<string, number[]>();
+  const dec = new TextDecoder("shift_jis");
+  for (let b = 0x20; b <= 0x7e; b++) table.set(String.fromCharCode(b), [b]);
+  for (let b = 0xa1; b <= 0xdf; b++) table.set(dec.decode(new Uint8Array([b])), [b]); // 半角カナ
+  const leads = [...range(0x81, 0x9f), ...range(0xe0, 0xfc)];
+  for (const lead of leads) {
+    for (const trail of range(0x40, 0xfc)) {
+      if (trail === 0x7f) continue;
+      const ch = dec.decode(new Uint8Array([lead, trail]));
+      if (ch.length === 1 && ch !== "\uFFFD" && !table.has(ch)) table.set(ch, [lead, trail]);
+    }
+  }
+  // 改行・タブは ASCII のまま
+  for (const c of ["\t", "\n", "\r"]) table.set(c, [c.charCodeAt(0)]);
+  // デコーダが全角側にしか割り当てない記号（〜 − ‖ など）を同じバイト列に寄せる
+  const aliases: Array<[string, string]> = [["\u301C", "\uFF5E"], ["\u2212", "\uFF0D"], ["\u2016", "\u2225"], ["\u00A2", "\uFFE0"], ["\u00A3", "\uFFE1"], ["\u00AC", "\uFFE2"]];
+  for (const [from, to] of aliases) {
+    const b = table.get(to);
+    if (b && !table.has(from)) table.set(from, b);
+  }
+  sjisTable = table;
+  return table;
+}
+
+function range(from: number, to: number) {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+/** Shift_JIS に変換。表現できない文字は "?" にして件数を返す */
+export function encodeShiftJIS(text: string) {
+  const table = shiftJISTable();
+  const out: number[] = [];
+  let unmappable = 0;
+  for (const ch of text) {
+    const b = table.get(ch);
+    if (b) {
+      out.push(...b);
+    } else {
+      out.push(0x3f);
+      unmappable++;
+    }
+  }
+  return { bytes: new Uint8Array(out), unmappable };
+}
+
+export function encodeCSV(text: string, encoding: ExportEncoding): { blob: Blob; unmappable: number } {
+  if (encoding === "shift_jis") {
+    const { bytes, unmappable } = encodeShiftJIS(text);
+    return { blob: new Blob([bytes], { type: "text/csv;charset=shift_jis;" }), unmappable };
+  }
+  // Excel が UTF-8 と判定できるよう BOM を付ける
+  return { blob: new Blob(["\uFEFF", text], { type: "text/csv;charset=utf-8;" }), unmappable: 0 };
+}
+
+// ====== アプリ形式（バックアップ用）の列 ======
+// 見出しはキー名そのまま。payer は Member.id、payerName は人が読むための列で取り込み時は補助的に使う。
+// tags は空白区切り（タグは parseTags の区切り文字を含まないので、そのまま分けて戻せる）。
+
+export type ExportColumn =
+  | "id" | "date" | "payer" | "payerName" | "category" | "memo" | "amount" | "kind"
+  | "personal" | "payee" | "settlementId" | "receiptId" | "recurringId" | "occurrence" | "tags";
+
+export const EXPORT_COLUMNS: Array<{ key: ExportColumn; label: string }> = [
+  { key: "id", label: "ID" },
+  { key: "date", label: "日付" },
+  { key: "payer", label: "支払者ID" },
+  { key: "payerName", label: "支払者" },
+  { key: "category", label: "カテゴリ" },
+  { key: "memo", label: "メモ" },
+  { key: "amount", label: "金額" },
+  { key: "kind", label: "収支" },
+  { key: "personal", label: "個人の支出" },
+  { key: "payee", label: "精算の受取人ID" },
+  { key: "settlementId", label: "精算ID" },
+  { key: "receiptId", label: "レシートID" },
+  { key: "recurringId", label: "定期ルールID" },
+  { key: "occurrence", label: "定期の予定日" },
+  { key: "tags", label: "タグ" },
+];
+
+/** 復元に最低限必要な列。全列で書き出すと取り込み時にそのまま復元できる */
+export const ROUND_TRIP_COLUMNS: ExportColumn[] = ["id", "date", "payer", "category", "memo", "amount", "kind"];
+
+export function txnsToRows(txns: Txn[], columns: ExportColumn[], nameOf: (id: string) => string): string[][] {
+  const value = (t: Txn, c: ExportColumn): string => {
+    switch (c) {
+      case "payerName": return nameOf(t.payer);
+      case "personal": return t.personal ? "1" : "";
+      case "amount": return String(t.amount);
+      case "tags": return (t.tags ?? []).join(" ");
+      default: return String(t[c] ?? "");
+    }
+  };
+  return [columns, ...txns.map((t) => columns.map((c) => value(t, c)))];
+}
+
+/** アプリ形式で書き出した CSV か（復元に必要な列がすべて見出しにある） */
+export function isNativeCSV(header: string[]): boolean {
+  const h = new Set(header.map((x) => x.trim()));
+  return ROUND_TRIP_COLUMNS.every((c) => h.has(c));
+}
+
+/** アプリ形式の CSV を Txn に戻す。resolvePayer で支払者を解決できない場合は payerName → 既定 */
+export function parseNativeCSV(
+  rows: string[][],
+  resolvePayer: (raw: string) => string | null,
+  defaultPayer: string
+): Txn[] {
+  const [header, ...body] = rows;
+  const idx = (k: ExportColumn) => header.findIndex((x) => x.trim() === k);
+  const get = (r: string[], k: ExportColumn) => (idx(k) >= 0 ? r[idx(k)] ?? "" : "");
+  return body
+    .map((r): Txn | null => {
+      const amount = Number(get(r, "amount"));
+      const kind = get(r, "kind") as Kind;
+      if (!get(r, "id") || !parseDateCell(get(r, "date")) || !Number.isFinite(amount)) return null;
+      if (kind !== "expense" && kind !== "income" && kind !== "transfer") return null;
+      const t: Txn = {
+        id: get(r, "id"),
+        date: parseDateCell(get(r, "date"))!,
+        payer: resolvePayer(get(r, "payer")) ?? resolvePayer(get(r, "payerName")) ?? defaultPayer,
+        category: get(r, "category"),
+        memo: get(r, "memo"),
+        amount,
+        kind,
+      };
+      if (get(r, "personal") === "1") t.personal = true;
+      const payee = get(r, "payee") && resolvePayer(get(r, "payee"));
+      if (payee) t.payee = payee;
+      if (get(r, "settlementId")) t.settlementId = get(r, "settlementId");
+      // レシートの明細は Receipt（合計・値引の配分）とのつながりを残す
+      if (get(r, "receiptId")) t.receiptId = get(r, "receiptId");
+      // 定期ルールで作った明細の印（ないと次の生成で同じ回がもう一度作られる）
+      if (get(r, "recurringId")) {
+        t.recurringId = get(r, "recurringId");
+        t.occurrence = parseDateCell(get(r, "occurrence")) ?? t.date;
+      }
+      // 区切りで分けて uniqueTags で正規化する（# や重複を落とす）
+      const tags = parseTags(get(r, "tags"));
+      if (tags.length) t.tags = tags;
+      return t;
+    })
+    .filter((t): t is Txn => t !== null);
+}
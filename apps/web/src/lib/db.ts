@@ -0,0 +1,140 @@
+// ====== IndexedDB（スキーマとマイグレーション） ======
+// データベースのバージョン = スキーマのバージョン。MIGRATIONS を上から順に、保存されているバージョンより新しいものだけ実行する。
+// 既存のマイグレーションは書き換えず、形を変えるときは末尾に追加して DB_VERSION を上げる。
+
+export const DB_NAME = "kakeibo";
+
+/** レコードとして 1 件ずつ保存するストア（id がキー） */
+export const STORES = {
+  txns: "txns",
+  receipts: "receipts",
+  trash: "trash",
+} as const;
+export type RecordStore = (typeof STORES)[keyof typeof STORES];
+
+/** 設定など、キーごとに値を丸ごと保存するストア */
+export const SETTINGS_STORE = "settings";
+
+/** localStorage 時代のキーの接頭辞（"kakeibo.txns" など） */
+export const LEGACY_PREFIX = "kakeibo.";
+
+type Migration = {
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, tx: IDBTransaction) => void;
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "明細・レシート・設定のストアを作る",
+    upgrade(db) {
+      const txns = db.createObjectStore(STORES.txns, { keyPath: "id" });
+      txns.createIndex("date", "date");
+      txns.createIndex("category", "category");
+      txns.createIndex("payer", "payer");
+      const receipts = db.createObjectStore(STORES.receipts, { keyPath: "id" });
+      receipts.createIndex("date", "date");
+      db.createObjectStore(SETTINGS_STORE);
+    },
+  },
+  {
+    version: 2,
+    description: "localStorage（kakeibo.*）から取り込む",
+    upgrade(_db, tx) {
+      // 元のキーは消さずに残す（取り込みに失敗していたときの控え）。バージョンが上がるので二度は読まない
+      for (const key of legacyKeys()) {
+        const value = readLegacy(key);
+        if (value === undefined) continue;
+        const name = key.slice(LEGACY_PREFIX.length);
+        if (name === STORES.txns || name === STORES.receipts) {
+          if (!Array.isArray(value)) continue;
+          const store = tx.objectStore(name);
+          for (const rec of value) if (rec && typeof rec.id === "string") store.put(rec);
+        } else {
+          tx.objectStore(SETTINGS_STORE).put(value, name);
+        }
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "明細にレシート・定期ルールの索引を追加",
+    upgrade(_db, tx) {
+      const txns = tx.objectStore(STORES.txns);
+      txns.createIndex("receiptId", "receiptId");
+      txns.createIndex("recurringId", "recurringId");
+    },
+  },
+  {
+    version: 4,
+    description: "ゴミ箱（削除した明細を 30 日残す）",
+    upgrade(db) {
+      const trash = db.createObjectStore(STORES.trash, { keyPath: "id" });
+      trash.createIndex("deletedAt", "deletedAt");
+    },
+  },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function legacyKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const k = localStorage.key(i);
+    if (k?.startsWith(LEGACY_PREFIX)) keys.push(k);
+  }
+  return keys;
+}
+
+function readLegacy(key: string): any {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw == null ? undefined : JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+// ====== Promise 化 ======
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("transaction aborted"));
+  });
+}
+
+export function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB が使えません"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const db = req.result;
+      const tx = req.transaction!;
+      for (const m of MIGRATIONS) {
+        if (m.version <= e.oldVersion) continue;
+        console.info(`db: migrate to v${m.version} (${m.description})`);
+        m.upgrade(db, tx);
+      }
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // 別のタブが新しいバージョンで開こうとしたら閉じて譲る
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => console.warn("db: 古いバージョンを開いている別のタブを閉じてください");
+  });
+}
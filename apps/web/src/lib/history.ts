@@ -0,0 +1,126 @@
+import { type Dispatch, type SetStateAction, useEffect, useReducer, useRef } from "react";
+import type { Txn } from "./types";
+import { diffById, touchChanged } from "./repository";
+import { type TrashItem, addToTrash, removeFromTrash } from "./trash";
+
+// ====== 操作の履歴（元に戻す・やり直す） ======
+// 利用者の操作で明細を変えるときは change(label, update) を通す。変更前後を id ごとに記録しておき、
+// 元に戻すときは変更前を、やり直すときは変更後を当て直す。消した明細はゴミ箱にも入れる。
+// 履歴はこのタブを開いている間だけ持つ（再読み込みで消える。消した明細はゴミ箱から戻せる）。
+// 定期ルールの自動生成や同期で受け取った変更は利用者の操作ではないので、setTxns で直接書いて履歴に載せない。
+// 書き換えた明細には modifiedAt を付ける（元に戻す・やり直すも手元での変更として付け直す）。
+
+export const MAX_HISTORY = 100;
+
+export type TxnChange = { id: string; before: Txn | null; after: Txn | null };
+
+/** 明細以外（レシート・精算の記録など）を一緒に戻す・やり直す処理 */
+export type HistoryExtra = { undo: () => void; redo: () => void };
+
+export type HistoryEntry = { label: string; changes: TxnChange[]; extra?: HistoryExtra };
+
+export function diffTxns(prev: Txn[], next: Txn[]): TxnChange[] {
+  const before = new Map(prev.map((t) => [t.id, t]));
+  const d = diffById(prev, next);
+  return [
+    ...d.put.map((t) => ({ id: t.id, before: before.get(t.id) ?? null, after: t })),
+    ...d.remove.map((id) => ({ id, before: before.get(id)!, after: null })),
+  ];
+}
+
+/** changes の before（元に戻す）または after（やり直す）を当てる。残っている明細は並び順を保ち、戻ってきた明細は先頭に置く */
+export function applyChanges(txns: Txn[], changes: TxnChange[], to: "before" | "after"): Txn[] {
+  const target = new Map(changes.map((c) => [c.id, c[to]]));
+  const kept: Txn[] = [];
+  for (const t of txns) {
+    if (!target.has(t.id)) {
+      kept.push(t);
+      continue;
+    }
+    const v = target.get(t.id);
+    target.delete(t.id);
+    if (v) kept.push(v);
+  }
+  const back = Array.from(target.values()).filter((v): v is Txn => !!v);
+  return [...back, ...kept];
+}
+
+const deletedBy = (changes: TxnChange[]) => changes.filter((c) => c.before && !c.after).map((c) => c.before!);
+
+const isEditable = (el: EventTarget | null) =>
+  el instanceof HTMLElement && (el.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName));
+
+export function useTxnHistory(txns: Txn[], setTxns: (next: Txn[]) => void, setTrash: Dispatch<SetStateAction<TrashItem[]>>) {
+  // 同じイベントの中で続けて change しても前の結果に重ねられるよう、最新の明細は ref で持つ
+  const latest = useRef(txns);
+  latest.current = txns;
+  const stacks = useRef({ past: [] as HistoryEntry[], future: [] as HistoryEntry[] });
+  const [, rerender] = useReducer((n: number) => n + 1, 0);
+
+  function write(next: Txn[]) {
+    latest.current = next;
+    setTxns(next);
+  }
+
+  function change(label: string, update: (prev: Txn[]) => Txn[], extra?: HistoryExtra) {
+    const next = touchChanged(latest.current, update(latest.current));
+    const changes = diffTxns(latest.current, next);
+    if (!changes.length && !extra) return;
+    write(next);
+    const deleted = deletedBy(changes);
+    if (deleted.length) setTrash((prev) => addToTrash(prev, deleted, label));
+    const s = stacks.current;
+    s.past = [...s.past.slice(-(MAX_HISTORY - 1)), { label, changes, extra }];
+    s.future = [];
+    rerender();
+  }
+
+  function undo() {
+    const s = stacks.current;
+    const e = s.past.pop();
+    if (!e) return;
+    write(touchChanged(latest.current, applyChanges(latest.current, e.changes, "before")));
+    const restored = deletedBy(e.changes);
+    if (restored.length) setTrash((prev) => removeFromTrash(prev, restored.map((t) => t.id)));
+    e.extra?.undo();
+    s.future.push(e);
+    rerender();
+  }
+
+  function redo() {
+    const s = stacks.current;
+    const e = s.future.pop();
+    if (!e) return;
+    write(touchChanged(latest.current, applyChanges(latest.current, e.changes, "after")));
+    const deleted = deletedBy(e.changes);
+    if (deleted.length) setTrash((prev) => addToTrash(prev, deleted, e.label));
+    e.extra?.redo();
+    s.past.push(e);
+    rerender();
+  }
+
+  // Ctrl/⌘+Z で元に戻す、Ctrl/⌘+Shift+Z・Ctrl+Y でやり直す（入力欄の中では文字の取り消しを優先する）
+  const keys = useRef({ undo, redo });
+  keys.current = { undo, redo };
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditable(e.target)) return;
+      const k = e.key.toLowerCase();
+      if (k === "z" && !e.shiftKey) keys.current.undo();
+      else if ((k === "z" && e.shiftKey) || (k === "y" && !e.metaKey)) keys.current.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  const { past, future } = stacks.current;
+  return {
+    change,
+    undo,
+    redo,
+    undoLabel: past[past.length - 1]?.label ?? null,
+    redoLabel: future[future.length - 1]?.label ?? null,
+  };
+}
@@ -0,0 +1,88 @@
+import type { Txn } from "./types";
+import { randomId } from "./utils";
+
+// ====== 世帯メンバー ======
+// Txn.payer には名前ではなく Member.id を保存する（改名しても過去明細が追従する）。
+// 「共同」は共同財布を表す疑似メンバーで、改名・無効化はできない。
+export const SHARED_PAYER_ID = "shared";
+export const SHARED_PAYER_NAME = "共同";
+
+export type Member = {
+  id: string;
+  name: string;
+  active: boolean;         // false = 新規入力の候補から外す（過去明細の表示には使う）
+};
+
+export type Household = {
+  members: Member[];       // 共同を含まない実メンバー
+  defaultPayer: string;    // Member.id または SHARED_PAYER_ID
+};
+
+export const DEFAULT_HOUSEHOLD: Household = {
+  members: [
+    { id: "m_maya", name: "まや", active: true },
+    { id: "m_kazumi", name: "かずみ", active: true },
+  ],
+  defaultPayer: SHARED_PAYER_ID,
+};
+
+export type PayerOption = { id: string; name: string };
+
+/** 支払者のドロップダウン候補（共同 + 有効メンバー）。keepId が無効メンバーでも候補に残す */
+export function payerOptions(h: Household, keepId?: string): PayerOption[] {
+  const opts: PayerOption[] = [{ id: SHARED_PAYER_ID, name: SHARED_PAYER_NAME }];
+  for (const m of h.members) {
+    if (m.active || m.id === keepId) opts.push({ id: m.id, name: m.name });
+  }
+  return opts;
+}
+
+/** 表示名。未知の値（移行前の名前など）はそのまま返す */
+export function payerName(h: Household, id: string): string {
+  if (id === SHARED_PAYER_ID) return SHARED_PAYER_NAME;
+  return h.members.find((m) => m.id === id)?.name ?? id;
+}
+
+/** id・名前のどちらでも Member.id に解決する。解決できなければ null */
+export function resolvePayer(h: Household, raw: string | undefined | null): string | null {
+  const v = String(raw ?? "").trim();
+  if (!v) return null;
+  if (v === SHARED_PAYER_ID || v === SHARED_PAYER_NAME) return SHARED_PAYER_ID;
+  const byId = h.members.find((m) => m.id === v);
+  if (byId) return byId.id;
+  const byName = h.members.find((m) => m.name === v);
+  return byName ? byName.id : null;
+}
+
+/** 有効な既定支払者（無効化されたメンバーなら共同に戻す） */
+export function defaultPayerOf(h: Household): string {
+  const m = h.members.find((x) => x.id === h.defaultPayer);
+  return m && m.active ? m.id : SHARED_PAYER_ID;
+}
+
+/**
+ * 旧データ（payer に "まや" などの名前を直接保存）を Member.id へ移行する。
+ * 未登録の名前はメンバーとして追加するので、古い名前も必ず解決できる。
+ */
+export function migrateLegacyPayers(txns: Txn[], h: Household) {
+  let household = h;
+  let changed = false;
+  const migrated = txns.map((t) => {
+    const id = resolvePayer(household, t.payer);
+    if (id) {
+      if (id === t.payer) return t;
+      changed = true;
+      return { ...t, payer: id };
+    }
+    const name = String(t.payer ?? "").trim();
+    if (!name) {
+      changed = true;
+      return { ...t, payer: SHARED_PAYER_ID };
+    }
+    const m: Member = { id: `m_${randomId()}`, name, active: true };
+    household = { ...household, members: [...household.members, m] };
+    changed = true;
+    return { ...t, payer: m.id };
+  });
+  return { txns: migrated, household, changed };
+}
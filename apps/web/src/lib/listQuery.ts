@@ -0,0 +1,131 @@
+import type { Kind, Txn } from "./types";
+import { type Household, payerName } from "./household";
+import { parseTags } from "./tags";
+
+// ====== 明細一覧の検索・絞り込み・並べ替え ======
+// 条件は URL のクエリ（?tab=list&month=2026-10&q=スーパー&sort=amount&dir=desc など）にも書き、ブックマークで同じ表示に戻れるようにする。
+// 既定値の項目は URL に書かない。期間（from / to）を指定したときは月をまたいで探す（月の指定は使わない）。
+
+export type SortKey = "date" | "payer" | "category" | "memo" | "amount" | "kind";
+export type SortDir = "asc" | "desc";
+
+export type ListQuery = {
+  q: string;               // メモの部分一致（大文字・小文字は区別しない）
+  payer: string;           // Member.id（"" = すべて）
+  category: string;
+  kind: "" | Kind;
+  tags: string;            // カンマ区切り。すべてのタグが付いている明細だけ出す
+  min: string;             // 金額の範囲（入力欄の文字列のまま持つ）
+  max: string;
+  from: string;            // YYYY-MM-DD
+  to: string;
+  sort: SortKey;
+  dir: SortDir;
+};
+
+export const DEFAULT_LIST_QUERY: ListQuery = {
+  q: "",
+  payer: "",
+  category: "",
+  kind: "",
+  tags: "",
+  min: "",
+  max: "",
+  from: "",
+  to: "",
+  sort: "date",
+  dir: "desc",
+};
+
+const SORT_KEYS: SortKey[] = ["date", "payer", "category", "memo", "amount", "kind"];
+const KINDS: Kind[] = ["expense", "income", "transfer"];
+
+export const isRangeQuery = (q: ListQuery) => !!(q.from || q.to);
+
+/** 並べ替え以外の条件があるか（「条件をクリア」の表示用） */
+export const hasFilters = (q: ListQuery) =>
+  (Object.keys(DEFAULT_LIST_QUERY) as Array<keyof ListQuery>).some((k) => k !== "sort" && k !== "dir" && q[k] !== DEFAULT_LIST_QUERY[k]);
+
+export function parseListQuery(params: URLSearchParams): ListQuery {
+  const get = (k: string) => params.get(k) ?? "";
+  const date = (v: string) => (/^\d{4}-\d{2}-\d{2}$/.test(v) ? v : "");
+  const num = (v: string) => (v !== "" && Number.isFinite(Number(v)) ? v : "");
+  const sort = get("sort") as SortKey;
+  const kind = get("kind") as Kind;
+  return {
+    q: get("q"),
+    payer: get("payer"),
+    category: get("category"),
+    kind: KINDS.includes(kind) ? kind : "",
+    tags: parseTags(get("tags")).join(","),
+    min: num(get("min")),
+    max: num(get("max")),
+    from: date(get("from")),
+    to: date(get("to")),
+    sort: SORT_KEYS.includes(sort) ? sort : DEFAULT_LIST_QUERY.sort,
+    dir: get("dir") === "asc" ? "asc" : get("dir") === "desc" ? "desc" : DEFAULT_LIST_QUERY.dir,
+  };
+}
+
+export function writeListQuery(params: URLSearchParams, q: ListQuery) {
+  for (const k of Object.keys(DEFAULT_LIST_QUERY) as Array<keyof ListQuery>) {
+    if (q[k] === DEFAULT_LIST_QUERY[k]) params.delete(k);
+    else params.set(k, q[k]);
+  }
+}
+
+// ====== URL ======
+// タブ・月・一覧の条件をまとめて読み書きする（履歴は増やさず置き換える）
+export type UrlState = { tab: string | null; month: string | null; query: ListQuery };
+
+export function readUrlState(): UrlState {
+  const params = new URLSearchParams(window.location.search);
+  const month = params.get("month");
+  return { tab: params.get("tab"), month: month && /^\d{4}-\d{2}$/.test(month) ? month : null, query: parseListQuery(params) };
+}
+
+export function writeUrlState(s: { tab: string; month: string; query: ListQuery }) {
+  const params = new URLSearchParams(window.location.search);
+  params.set("tab", s.tab);
+  params.set("month", s.month);
+  // 一覧の条件は一覧タブのときだけ残す
+  writeListQuery(params, s.tab === "list" ? s.query : DEFAULT_LIST_QUERY);
+  const search = params.toString();
+  if (search !== window.location.search.slice(1)) {
+    window.history.replaceState(window.history.state, "", `${window.location.pathname}?${search}${window.location.hash}`);
+  }
+}
+
+// ====== 絞り込みと並べ替え ======
+export function queryTxns(txns: Txn[], q: ListQuery, month: string, household: Household): Txn[] {
+  const text = q.q.trim().toLowerCase();
+  const min = q.min === "" ? null : Number(q.min);
+  const max = q.max === "" ? null : Number(q.max);
+  const range = isRangeQuery(q);
+  const tags = parseTags(q.tags);
+  const list = txns.filter(
+    (t) =>
+      (range ? (!q.from || t.date >= q.from) && (!q.to || t.date <= q.to) : t.date.startsWith(month)) &&
+      (!text || t.memo.toLowerCase().includes(text)) &&
+      (!q.payer || t.payer === q.payer) &&
+      (!q.category || t.category === q.category) &&
+      (!q.kind || t.kind === q.kind) &&
+      tags.every((tag) => t.tags?.includes(tag)) &&
+      (min == null || t.amount >= min) &&
+      (max == null || t.amount <= max)
+  );
+  return sortTxns(list, q.sort, q.dir, household);
+}
+
+export function sortTxns(list: Txn[], key: SortKey, dir: SortDir, household: Household): Txn[] {
+  const value = (t: Txn): string | number =>
+    key === "amount" ? t.amount : key === "payer" ? payerName(household, t.payer) : t[key];
+  const sign = dir === "asc" ? 1 : -1;
+  return [...list].sort((a, b) => {
+    const va = value(a);
+    const vb = value(b);
+    const c = typeof va === "number" && typeof vb === "number" ? va - vb : String(va).localeCompare(String(vb), "ja");
+    // 同じ値なら日付の新しい順
+    return c !== 0 ? c * sign : b.date.localeCompare(a.date);
+  });
+}
@@ -0,0 +1,141 @@
+import type { Kind, Txn } from "./types";
+import { type Household, defaultPayerOf, payerOptions, resolvePayer } from "./household";
+import { parseReceiptText } from "./receiptParser";
+import { type ReceiptMeta, type TaxRate, normalizeReceiptMeta } from "./receipt";
+import { uniqueTags } from "./tags";
+import { randomId } from "./utils";
+
+// ====== レシートOCR ======
+// openai: ブラウザ → /api/ai/receipt → OpenAI Vision
+// local : ブラウザ内の tesseract.js（jpn）+ ルールベース解析。画像は外部に送らず、worker・wasm・日本語データも自前で配る
+
+export type OcrEngine = "openai" | "local";
+
+export const OCR_ENGINE_LABELS: Record<OcrEngine, string> = {
+  openai: "OpenAI",
+  local: "ローカル（オフライン）",
+};
+
+/** 読み取った商品行。amount は印字された価格（値引・外税の配分はステージングで行う） */
+export type OcrItem = Txn & { taxRate: TaxRate | null };
+
+export type OcrResult = { txns: OcrItem[]; raw: string; receipt: ReceiptMeta };
+
+type RawItem = Partial<Omit<Txn, "amount">> & { amount?: number | string; taxRate?: number | string | null };
+
+/** エンジンの出力を Txn に揃える（金額 0 以下は捨てる） */
+function toTxns(items: RawItem[], household: Household, fallbackDate?: string | null): OcrItem[] {
+  const today = new Date().toISOString().slice(0, 10);
+  return items
+    .map((i) => {
+      const memo = (i.memo || "").toString().trim() || "レシート項目";
+      const amtStr =
+        typeof i.amount === "string" ? i.amount : String(i.amount ?? "");
+      const amount = Number(amtStr.replace(/[^\d.-]/g, "")) || 0;
+      const rate = Number(i.taxRate);
+      const tags = Array.isArray(i.tags) ? uniqueTags(i.tags.map(String)) : [];
+      return {
+        id: randomId(),
+        date: i.date || fallbackDate || today,
+        payer: resolvePayer(household, i.payer) ?? defaultPayerOf(household),
+        category: i.category || "食費",
+        memo,
+        amount,
+        kind: (i.kind as Kind) || "expense",
+        taxRate: rate === 8 || rate === 10 ? (rate as TaxRate) : null,
+        ...(tags.length ? { tags } : {}),
+      };
+    })
+    .filter((t) => t.amount > 0);
+}
+
+const readAsDataURL = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const fr = new FileReader();
+    fr.onload = () => resolve(fr.result as string);
+    fr.onerror = reject;
+    fr.readAsDataURL(file);
+  });
+
+// ====== OpenAI（/api/ai/receipt） ======
+export async function callVisionOCRViaServer(
+  imageFile: File,
+  household: Household,
+  tags: string[] = []
+): Promise<OcrResult> {
+  // 画像 → dataURL
+  const dataUrl = await readAsDataURL(imageFile);
+
+  // --- サーバ呼び出し ---
+  const r = await fetch("/api/ai/receipt", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      imageDataUrl: dataUrl,
+      // 支払者のヒント（名前で渡し、戻りは resolvePayer で id に直す）
+      payers: payerOptions(household).map((p) => p.name),
+      // 使ったことのあるタグ（この中から付けてもらう）
+      tags,
+    }),
+  });
+
+  // 一度だけ読み取る
+  const txt = await r.text();
+
+  if (!r.ok) {
+    let msg = txt;
+    try {
+      const j = JSON.parse(txt);
+      msg = j?.error ?? msg;
+    } catch { }
+    throw new Error(msg || `HTTP ${r.status}`);
+  }
+
+  const payload = JSON.parse(txt) as {
+    items: RawItem[];
+    receipt?: unknown;
+    raw?: string;
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+  const receipt = normalizeReceiptMeta(payload.receipt, payload.items?.[0]?.date || today);
+  return { txns: toTxns(payload.items || [], household, receipt.date), raw: payload.raw || "", receipt };
+}
+
+// ====== ローカル（tesseract.js） ======
+// worker は blob URL から起動されるので、相対パスではなく絶対 URL で渡す
+const tesseractUrl = (file: string) => new URL(`${import.meta.env.BASE_URL}tesseract/${file}`, window.location.href).href;
+
+export async function callLocalOCR(
+  imageFile: File,
+  household: Household,
+  onProgress?: (status: string, progress: number) => void
+): Promise<OcrResult> {
+  // 数 MB あるので使うときだけ読み込む
+  const { createWorker } = await import("tesseract.js");
+  // worker・wasm・日本語データは CDN ではなく同じオリジンから読む（tesseractAssets.ts が /tesseract/ に置く）
+  const worker = await createWorker("jpn", 1, {
+    workerPath: tesseractUrl("worker.min.js"),
+    corePath: tesseractUrl("core"),
+    langPath: tesseractUrl("lang"),
+    logger: (m) => onProgress?.(m.status, m.progress),
+  });
+  try {
+    const { data } = await worker.recognize(imageFile);
+    const parsed = parseReceiptText(data.text);
+    const receipt = normalizeReceiptMeta(parsed, new Date().toISOString().slice(0, 10));
+    return { txns: toTxns(parsed.items, household, receipt.date), raw: data.text, receipt };
+  } finally {
+    await worker.terminate();
+  }
+}
+
+export function runOCR(
+  engine: OcrEngine,
+  file: File,
+  household: Household,
+  onProgress?: (status: string, progress: number) => void,
+  tags: string[] = []
+): Promise<OcrResult> {
+  return engine === "local" ? callLocalOCR(file, household, onProgress) : callVisionOCRViaServer(file, household, tags);
+}
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from "react";
+import type { OcrEngine, OcrResult } from "./ocr";
+import { randomId } from "./utils";
+
+// ====== 複数レシートの OCR キュー ======
+// 同時実行数を制限して順に処理する。1 枚の失敗で他を止めず、失敗は 1 回だけ自動で再試行する。
+
+export type QueueStatus = "pending" | "processing" | "done" | "failed" | "retry";
+
+export const QUEUE_STATUS_LABELS: Record<QueueStatus, string> = {
+  pending: "待機中",
+  processing: "処理中",
+  done: "完了",
+  failed: "失敗",
+  retry: "再試行待ち",
+};
+
+export type QueueItem = {
+  id: string;
+  file: File;
+  engine: OcrEngine;
+  status: QueueStatus;
+  attempts: number;
+  progress?: string;       // 処理中の進捗表示（ローカルOCR）
+  error?: string;
+  found?: number;          // 読み取れた明細数
+};
+
+const MAX_ATTEMPTS = 2;
+
+type Runner = (item: QueueItem, onProgress: (status: string, progress: number) => void) => Promise<OcrResult>;
+
+export function useOcrQueue(run: Runner, onDone: (item: QueueItem, result: OcrResult) => void, concurrency: number) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  // 最新の run / onDone を使う（処理中に txns などが変わっても古い値を掴まない）
+  const runRef = useRef(run);
+  const onDoneRef = useRef(onDone);
+  runRef.current = run;
+  onDoneRef.current = onDone;
+
+  const patch = (id: string, p: Partial<QueueItem>) =>
+    setItems((prev) => prev.map((i) => (i.id === id ? { ...i, ...p } : i)));
+
+  useEffect(() => {
+    const active = items.filter((i) => i.status === "processing").length;
+    const next = items
+      .filter((i) => i.status === "pending" || i.status === "retry")
+      .slice(0, Math.max(0, concurrency - active));
+    if (!next.length) return;
+
+    const ids = new Set(next.map((n) => n.id));
+    setItems((prev) =>
+      prev.map((i) => (ids.has(i.id) ? { ...i, status: "processing", attempts: i.attempts + 1, error: undefined } : i))
+    );
+    for (const item of next) {
+      runRef.current(item, (status, progress) => patch(item.id, { progress: `${status} ${Math.round(progress * 100)}%` }))
+        .then((result) => {
+          patch(item.id, { status: "done", progress: undefined, found: result.txns.length });
+          onDoneRef.current(item, result);
+        })
+        .catch((e: any) => {
+          const error = e?.message ?? String(e);
+          console.error("OCR queue error:", item.file.name, e);
+          patch(item.id, {
+            status: item.attempts + 1 < MAX_ATTEMPTS ? "retry" : "failed",
+            progress: undefined,
+            error,
+          });
+        });
+    }
+  }, [items, concurrency]);
+
+  return {
+    items,
+    busy: items.some((i) => i.status === "pending" || i.status === "processing" || i.status === "retry"),
+    add(files: File[], engine: OcrEngine) {
+      const added = files
+        .filter((f) => f.type.startsWith("image/"))
+        .map((file): QueueItem => ({ id: randomId(), file, engine, status: "pending", attempts: 0 }));
+      setItems((prev) => [...prev, ...added]);
+      return added.length;
+    },
+    /** 失敗したものを（必要ならエンジンを変えて）もう一度並べる */
+    retry(id: string, engine?: OcrEngine) {
+      setItems((prev) =>
+        prev.map((i) => (i.id === id ? { ...i, status: "pending", attempts: 0, error: undefined, engine: engine ?? i.engine } : i))
+      );
+    },
+    remove(id: string) {
+      setItems((prev) => prev.filter((i) => i.id !== id || i.status === "processing"));
+    },
+    clearFinished() {
+      setItems((prev) => prev.filter((i) => i.status !== "done" && i.status !== "failed"));
+    },
+  };
+}
@@ -0,0 +1,198 @@
+import type { Txn } from "./types";
+
+// ====== レシート ======
+// 1 枚のレシート = Receipt。商品行は Txn（receiptId で紐づく）として保存する。
+// 明細の合計と印字された合計を突き合わせ、OCR の読み落としを検出する。
+// 値引と（外税レシートの）消費税は商品行に配分し、明細の金額 = 実際に払った額にする。
+
+export type TaxMode = "inclusive" | "exclusive";
+
+export const TAX_MODE_LABELS: Record<TaxMode, string> = {
+  inclusive: "内税（税込価格）",
+  exclusive: "外税（税抜価格）",
+};
+
+export type TaxRate = 8 | 10;
+
+export type ReceiptDiscount = {
+  label: string;
+  amount: number;          // 正の値（値引き額）
+  target: string;          // 対象の商品名（空 = レシート全体への値引）
+};
+
+export type ReceiptMeta = {
+  storeName: string;
+  date: string;            // YYYY-MM-DD
+  time: string;            // HH:MM（不明なら空）
+  paymentMethod: string;   // 現金 / クレジット / 電子マネー / QR など（不明なら空）
+  taxMode: TaxMode;
+  subtotal: number | null;
+  tax8: number | null;     // 軽減税率 8% の税額
+  tax10: number | null;    // 標準税率 10% の税額
+  discounts: ReceiptDiscount[];
+  total: number | null;    // 印字された支払合計
+};
+
+export type Receipt = ReceiptMeta & {
+  id: string;
+  createdAt: string;       // ISO
+};
+
+export const PAYMENT_METHODS = ["現金", "クレジット", "電子マネー", "QR", "その他"];
+
+export const emptyReceiptMeta = (date: string): ReceiptMeta => ({
+  storeName: "",
+  date,
+  time: "",
+  paymentMethod: "",
+  taxMode: "inclusive",
+  subtotal: null,
+  tax8: null,
+  tax10: null,
+  discounts: [],
+  total: null,
+});
+
+const num = (v: unknown): number | null => {
+  if (v == null || v === "") return null;
+  const n = Number(String(v).replace(/[^\d.-]/g, ""));
+  return Number.isFinite(n) ? n : null;
+};
+
+/** サーバ/ローカル OCR の出力を ReceiptMeta に正規化する */
+export function normalizeReceiptMeta(raw: any, fallbackDate: string): ReceiptMeta {
+  const date = typeof raw?.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(raw.date) ? raw.date : fallbackDate;
+  const time = typeof raw?.time === "string" && /^\d{1,2}:\d{2}$/.test(raw.time) ? raw.time.padStart(5, "0") : "";
+  const discounts: ReceiptDiscount[] = (Array.isArray(raw?.discounts) ? raw.discounts : [])
+    .map((d: any) => ({
+      label: String(d?.label ?? "値引").trim() || "値引",
+      amount: Math.abs(num(d?.amount) ?? 0),
+      target: String(d?.target ?? "").trim(),
+    }))
+    .filter((d: ReceiptDiscount) => d.amount > 0);
+  return {
+    storeName: String(raw?.storeName ?? raw?.store ?? "").trim(),
+    date,
+    time,
+    paymentMethod: String(raw?.paymentMethod ?? "").trim(),
+    taxMode: raw?.taxMode === "exclusive" ? "exclusive" : "inclusive",
+    subtotal: num(raw?.subtotal),
+    tax8: num(raw?.tax8),
+    tax10: num(raw?.tax10),
+    discounts,
+    total: num(raw?.total),
+  };
+}
+
+export type ReceiptCheck = {
+  status: "ok" | "mismatch" | "unknown"; // unknown = 合計が読めていない
+  itemsTotal: number;      // 明細の合計
+  expected: number | null; // 印字された合計
+  diff: number;            // expected - 明細から計算した支払額
+};
+
+/**
+ * 明細の合計がレシートの合計と合うか。
+ * 明細は値引・税を配分済みなので、明細の合計 = 支払合計 になるはず。
+ * 配分を始める前に保存したレシート（taxMode がない）は、値引を引いた額・税を足した額とも比べる。
+ */
+export function checkReceiptTotal(meta: ReceiptMeta, amounts: number[]): ReceiptCheck {
+  const itemsTotal = amounts.reduce((s, a) => s + a, 0);
+  if (meta.total == null) return { status: "unknown", itemsTotal, expected: null, diff: 0 };
+  const discount = meta.discounts.reduce((s, d) => s + d.amount, 0);
+  const tax = (meta.tax8 ?? 0) + (meta.tax10 ?? 0);
+  const inclusive = itemsTotal - discount;
+  const exclusive = inclusive + tax;
+  const candidates = meta.taxMode ? [itemsTotal] : tax > 0 ? [inclusive, exclusive] : [inclusive];
+  // 1 円単位の端数処理差は許容する
+  const best = candidates.reduce((a, b) => (Math.abs(meta.total! - a) <= Math.abs(meta.total! - b) ? a : b));
+  const diff = meta.total - best;
+  return { status: Math.abs(diff) <= 1 ? "ok" : "mismatch", itemsTotal, expected: meta.total, diff };
+}
+
+/** 保存済みレシートの確認（紐づく明細から計算） */
+export function checkSavedReceipt(receipt: Receipt, txns: Txn[]): ReceiptCheck {
+  return checkReceiptTotal(receipt, txns.filter((t) => t.receiptId === receipt.id).map((t) => t.amount));
+}
+
+// ====== 値引・税の配分 ======
+
+/** 軽減税率の印がない行の税率。8% の税額しか印字されていないレシートなら 8%、それ以外は 10% */
+export function resolveTaxRate(rate: TaxRate | null | undefined, meta: ReceiptMeta): TaxRate {
+  if (rate === 8 || rate === 10) return rate;
+  return (meta.tax8 ?? 0) > 0 && !(meta.tax10 ?? 0) ? 8 : 10;
+}
+
+/** total を重みに比例して整数で配る（最大剰余法。合計は必ず total） */
+function distribute(total: number, weights: number[]): number[] {
+  if (!weights.length) return [];
+  const sum = weights.reduce((s, w) => s + w, 0);
+  const raw = weights.map((w) => (sum > 0 ? (total * w) / sum : total / weights.length));
+  const out = raw.map(Math.floor);
+  let rest = total - out.reduce((s, v) => s + v, 0);
+  const order = raw.map((r, i) => ({ frac: r - Math.floor(r), i })).sort((a, b) => b.frac - a.frac);
+  for (let k = 0; rest > 0 && k < order.length; k++, rest--) out[order[k].i]++;
+  return out;
+}
+
+/** 値引の対象商品（完全一致 → 部分一致の順） */
+function findTarget(items: AllocationInput[], target: string): number {
+  const exact = items.findIndex((i) => i.memo === target);
+  if (exact >= 0) return exact;
+  return items.findIndex((i) => i.memo.includes(target) || target.includes(i.memo));
+}
+
+export type AllocationInput = {
+  memo: string;
+  price: number;           // レシートに印字された価格（値引前。外税なら税抜）
+  taxRate: TaxRate;
+};
+
+export type Allocation = {
+  discount: number;        // 配分された値引
+  tax: number;             // 上乗せした消費税（外税のみ）
+  amount: number;          // 実際の支払額 = price - discount + tax
+};
+
+/**
+ * 値引と外税をレシートの商品行に配分する。
+ * 1. 対象商品がわかる値引はその商品から引く（見つからなければ全体値引として扱う）
+ * 2. 全体値引は値引後の金額に比例して配る
+ * 3. 外税なら税率ごとに税額を求め、値引後の金額に比例して上乗せする
+ *    税額は印字があればそれを使うが、除外行などで明細とずれている場合は計算し直す
+ */
+export function allocateReceipt(items: AllocationInput[], meta: ReceiptMeta): Allocation[] {
+  const net = items.map((i) => Math.max(0, Math.round(i.price)));
+  const discount = items.map(() => 0);
+
+  let whole = 0;
+  for (const d of meta.discounts) {
+    const i = d.target ? findTarget(items, d.target) : -1;
+    const take = i >= 0 ? Math.min(d.amount, net[i]) : 0;
+    if (i >= 0) {
+      net[i] -= take;
+      discount[i] += take;
+    }
+    whole += d.amount - take;
+  }
+  whole = Math.min(whole, net.reduce((s, v) => s + v, 0));
+  distribute(whole, net).forEach((v, i) => {
+    net[i] -= v;
+    discount[i] += v;
+  });
+
+  const tax = items.map(() => 0);
+  if (meta.taxMode === "exclusive") {
+    for (const rate of [8, 10] as TaxRate[]) {
+      const idx = items.map((it, i) => (it.taxRate === rate ? i : -1)).filter((i) => i >= 0);
+      if (!idx.length) continue;
+      const base = idx.reduce((s, i) => s + net[i], 0);
+      const computed = Math.floor((base * rate) / 100); // 税率ごとの合計に対して端数切り捨て
+      const printed = rate === 8 ? meta.tax8 : meta.tax10;
+      const groupTax = printed != null && Math.abs(printed - computed) <= idx.length ? printed : computed;
+      distribute(groupTax, idx.map((i) => net[i])).forEach((v, k) => (tax[idx[k]] = v));
+    }
+  }
+
+  return items.map((_, i) => ({ discount: discount[i], tax: tax[i], amount: net[i] + tax[i] }));
+}
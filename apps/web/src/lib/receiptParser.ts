@@ -0,0 +1,170 @@
+import type { ReceiptDiscount, TaxMode, TaxRate } from "./receipt";
+
+// ====== レシート文字列のルールベース解析（ローカルOCR用） ======
+// Tesseract の出力は 1 行 = 1 明細になっていることが多いので、行末の金額を拾って商品行とみなす。
+// 税・割引・合計・支払方法などの行は商品行から除外し、レシートの集計欄として別に拾う。
+
+export type ParsedReceiptLine = {
+  memo: string;
+  amount: number;
+  taxRate: TaxRate | null; // 軽減税率の印（※ * 軽）があれば 8、なければ null（レシート全体から決める）
+};
+
+export type ParsedReceipt = {
+  date: string | null;     // YYYY-MM-DD（読めなければ null）
+  time: string;            // HH:MM（読めなければ空）
+  storeName: string;
+  paymentMethod: string;
+  taxMode: TaxMode;
+  subtotal: number | null;
+  tax8: number | null;
+  tax10: number | null;
+  discounts: ReceiptDiscount[];
+  total: number | null;
+  items: ParsedReceiptLine[];
+};
+
+// 明細ではない行（部分一致）
+const SKIP_PATTERNS = [
+  /小\s*計/, /合\s*計/, /総\s*計/, /^計/, /税/, /割引/, /値引/, /引\s*$/, /クーポン/, /ポイント/,
+  /お?預\s*り/, /お?釣/, /釣銭/, /現\s*金/, /クレジット/, /カード\s*(払|決済|支払|番号)/, /電子マネー/, /QR/i, /paypay/i,
+  /対象/, /点数/, /買上/, /お支払/, /支払/, /領収/, /レシート/, /TEL/i, /電話/, /No\./i, /登録番号/,
+  /\d{1,2}:\d{2}/, /\d{4}\s*[年/.\-]\s*\d{1,2}/,       // 日時の行
+];
+
+const toHalfWidth = (s: string) =>
+  s
+    .replace(/[０-９Ａ-Ｚａ-ｚ]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/[，、]/g, ",")
+    .replace(/[．]/g, ".")
+    .replace(/[￥]/g, "¥")
+    .replace(/　/g, " ");
+
+/** レシート上部の日付（2026年10月1日・2026/10/01・R8.10.1 など） */
+export function findReceiptDate(text: string): string | null {
+  const t = toHalfWidth(text);
+  let m = t.match(/(20\d{2})\s*[年/.\-]\s*(\d{1,2})\s*[月/.\-]\s*(\d{1,2})/);
+  if (m) return toISO(Number(m[1]), Number(m[2]), Number(m[3]));
+  // 令和（R / 令和）: 令和1年 = 2019年
+  m = t.match(/(?:令和|R)\s*(\d{1,2})\s*[年/.\-]\s*(\d{1,2})\s*[月/.\-]\s*(\d{1,2})/);
+  if (m) return toISO(2018 + Number(m[1]), Number(m[2]), Number(m[3]));
+  return null;
+}
+
+function toISO(y: number, mo: number, d: number): string | null {
+  if (mo < 1 || mo > 12 || d < 1 || d > 31) return null;
+  return `${y}-${String(mo).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+/** 1 行を「品名 + 金額」に分解。商品行でなければ null */
+export function parseReceiptLine(line: string): ParsedReceiptLine | null {
+  const t = toHalfWidth(line).trim();
+  if (!t) return null;
+  if (SKIP_PATTERNS.some((re) => re.test(t))) return null;
+  // 値引き行（-100, △100）は除外
+  if (/[-△▲]\s*¥?\s*\d[\d,]*\s*$/.test(t)) return null;
+
+  // 行末の金額（¥1,234 / 1,234円 / 1234 と軽減税率マーク * ※ 軽 外 内 など）
+  const m = t.match(/^(.*?)\s*¥?\s*(\d{1,3}(?:,\d{3})+|\d+)\s*(?:円)?\s*(?:[*※軽外内非]|[(（][^)）]*[)）])?\s*$/);
+  if (!m) return null;
+  const amount = Number(m[2].replace(/,/g, ""));
+  if (!Number.isFinite(amount) || amount <= 0 || amount >= 1_000_000) return null;
+
+  const memo = m[1]
+    .replace(/^\d{4,}\s*/, "")           // 先頭の JAN/商品コード
+    .replace(/[*※]+/g, "")
+    .replace(/\s*[@x×]\s*\d+.*$/i, "")   // 単価 × 個数 の表記
+    .replace(/\s+/g, " ")
+    .trim();
+  // 品名に文字（かな・漢字・英字）がない行は時刻や番号とみなす
+  if (!/[ぁ-んァ-ヶ一-龠a-zA-Zｦ-ﾟ]/.test(memo)) return null;
+  const taxRate: TaxRate | null = /[*※★]|[(（]軽[)）]|軽\s*$/.test(t) ? 8 : null;
+  return { memo, amount, taxRate };
+}
+
+/** 行末の金額（集計欄用）。値引きの符号は無視する */
+function trailingAmount(t: string): number | null {
+  const m = t.match(/¥?\s*(\d{1,3}(?:,\d{3})+|\d+)\s*円?\s*[)）]?\s*$/);
+  return m ? Number(m[1].replace(/,/g, "")) : null;
+}
+
+const PAYMENT_HINTS: Array<[RegExp, string]> = [
+  [/クレジット|カード/, "クレジット"],
+  [/電子マネー|Suica|PASMO|iD|QUICPay|WAON|nanaco|Edy/i, "電子マネー"],
+  [/PayPay|d払い|au\s*PAY|楽天ペイ|QR/i, "QR"],
+  [/現\s*金|お?預\s*り/, "現金"],
+];
+
+/** 集計欄（小計・税・値引・合計・支払方法）と店名・時刻を拾う */
+function parseSummary(lines: string[]) {
+  let taxMode: TaxMode | null = null;
+  let lastItem = "";       // 直前の商品行（商品の直下にある値引はその商品への値引）
+  let afterSubtotal = false;
+  let subtotal: number | null = null;
+  let total: number | null = null;
+  let tax8: number | null = null;
+  let tax10: number | null = null;
+  let paymentMethod = "";
+  let time = "";
+  const discounts: ReceiptDiscount[] = [];
+
+  for (const line of lines) {
+    const t = toHalfWidth(line).trim();
+    const item = parseReceiptLine(line);
+    if (item) {
+      lastItem = item.memo;
+      continue;
+    }
+    if (!taxMode) {
+      if (/外\s*税|税\s*抜/.test(t)) taxMode = "exclusive";
+      else if (/内\s*税|税\s*込/.test(t)) taxMode = "inclusive";
+    }
+    if (!time) {
+      const tm = t.match(/(\d{1,2}):(\d{2})/);
+      if (tm && Number(tm[1]) < 24) time = `${tm[1].padStart(2, "0")}:${tm[2]}`;
+    }
+    if (!paymentMethod) {
+      const hit = PAYMENT_HINTS.find(([re]) => re.test(t));
+      if (hit) paymentMethod = hit[1];
+    }
+    const amount = trailingAmount(t);
+    if (amount == null || /TEL|電話|\d{2,4}-\d{2,4}-\d{3,4}/i.test(t)) continue;
+    if (/小\s*計/.test(t)) {
+      subtotal ??= amount;
+      afterSubtotal = true;
+    } else if (/合\s*計|総\s*計|お買上/.test(t) && !/点数/.test(t)) {
+      total ??= amount;
+    } else if (/税/.test(t) && !/対象/.test(t)) {
+      if (/8\s*%|軽減/.test(t)) tax8 = (tax8 ?? 0) + amount;
+      else tax10 = (tax10 ?? 0) + amount;
+    } else if (/割引|値引|クーポン/.test(t) || /(?:^|\s)[-△▲]\s*¥?\s*\d[\d,]*\s*$/.test(t)) {
+      const label = t.replace(/[-△▲]?\s*¥?\s*[\d,]+\s*円?\s*$/, "").trim() || "値引";
+      discounts.push({ label, amount, target: afterSubtotal ? "" : lastItem });
+      continue;
+    }
+    lastItem = "";
+  }
+
+  // 表記がなければ「小計 + 税 = 合計」になっているかで外税を判定する
+  const tax = (tax8 ?? 0) + (tax10 ?? 0);
+  if (!taxMode && subtotal != null && total != null && tax > 0 && Math.abs(subtotal + tax - total) <= 1) {
+    taxMode = "exclusive";
+  }
+
+  // 店名: 先頭付近で数字の少ない最初の行
+  const storeName =
+    lines
+      .slice(0, 5)
+      .map((l) => toHalfWidth(l).trim())
+      .find((l) => l.length >= 2 && /[ぁ-んァ-ヶ一-龠a-zA-Z]/.test(l) && (l.match(/\d/g)?.length ?? 0) < 4) ?? "";
+
+  return { subtotal, total, tax8, tax10, paymentMethod, taxMode: taxMode ?? "inclusive", time, discounts, storeName };
+}
+
+export function parseReceiptText(text: string): ParsedReceipt {
+  const lines = text.split(/\r?\n/);
+  const items = lines
+    .map(parseReceiptLine)
+    .filter((x): x is ParsedReceiptLine => x !== null);
+  return { date: findReceiptDate(text), ...parseSummary(lines), items };
+}
@@ -0,0 +1,175 @@
+import type { Kind, Txn } from "./types";
+import { randomId } from "./utils";
+
+// ====== 定期的な支出・収入（家賃・光熱費・サブスクなど） ======
+// ルールから予定日を求め、アプリを開いたときに今日までの分を明細として生成する。
+// generatedThrough までは生成済みなので、生成後に消した明細が復活することはない。
+// 1 回分だけのスキップ・金額変更は exceptions に持ち、ルール本体（スケジュール）は変えない。
+// 生成する明細の id はルールと予定日から決める（同じ回を 2 度生成しても、別の端末で生成しても同じ明細になる）。
+
+export type RecurFreq = "monthly" | "monthEnd" | "yearly" | "weekly";
+
+export const RECUR_FREQ_LABELS: Record<RecurFreq, string> = {
+  monthly: "毎月（日付指定）",
+  monthEnd: "毎月（月末）",
+  yearly: "毎年",
+  weekly: "N週ごと",
+};
+
+export type RecurException = {
+  skip?: boolean;
+  amount?: number;
+};
+
+export type RecurringRule = {
+  id: string;
+  memo: string;
+  amount: number;
+  category: string;
+  payer: string;           // Member.id
+  kind: Kind;
+  personal?: boolean;
+  freq: RecurFreq;
+  day: number;             // monthly / yearly: 日（月の日数を超える場合は月末）
+  month: number;           // yearly: 月（1〜12）
+  interval: number;        // weekly: 何週ごとか（startDate の曜日）
+  startDate: string;       // YYYY-MM-DD（最初の候補日。weekly はこの日が起点）
+  endDate?: string;        // YYYY-MM-DD（この日まで。空なら無期限）
+  generatedThrough?: string; // この日までの分は生成済み
+  exceptions?: Record<string, RecurException>; // 予定日 → 1 回分の変更
+};
+
+// 日付は UTC で計算する（タイムゾーンで日付がずれないように）
+const parse = (d: string) => {
+  const [y, m, day] = d.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, day));
+};
+const fmt = (d: Date) => d.toISOString().slice(0, 10);
+const addDays = (d: string, n: number) => fmt(new Date(parse(d).getTime() + n * 86_400_000));
+const lastDayOf = (y: number, m0: number) => new Date(Date.UTC(y, m0 + 1, 0)).getUTCDate();
+const ymd = (y: number, m0: number, day: number) => fmt(new Date(Date.UTC(y, m0, Math.min(day, lastDayOf(y, m0)))));
+
+/** from〜to（両端含む）に入る予定日 */
+export function occurrences(rule: RecurringRule, from: string, to: string): string[] {
+  const start = from > rule.startDate ? from : rule.startDate;
+  const end = rule.endDate && rule.endDate < to ? rule.endDate : to;
+  if (start > end) return [];
+
+  const out: string[] = [];
+  if (rule.freq === "weekly") {
+    const step = Math.max(1, rule.interval || 1) * 7;
+    const diff = Math.round((parse(start).getTime() - parse(rule.startDate).getTime()) / 86_400_000);
+    let d = addDays(rule.startDate, Math.ceil(diff / step) * step);
+    for (; d <= end; d = addDays(d, step)) out.push(d);
+    return out;
+  }
+
+  // 月ごとに候補日を求める（月の日数を超える日は月末に寄せる）
+  const s = parse(start);
+  for (let y = s.getUTCFullYear(), m0 = s.getUTCMonth(); ymd(y, m0, 1) <= end; ) {
+    const d =
+      rule.freq === "monthly" ? ymd(y, m0, rule.day)
+        : rule.freq === "monthEnd" ? ymd(y, m0, 31)
+          : m0 === (rule.month || 1) - 1 ? ymd(y, m0, rule.day)
+            : null;
+    if (d && d >= start && d <= end) out.push(d);
+    if (++m0 > 11) {
+      m0 = 0;
+      y++;
+    }
+  }
+  return out;
+}
+
+/** 今日以降の予定日（最大 n 件。スキップ済みも含む） */
+export function upcoming(rule: RecurringRule, today: string, n: number): string[] {
+  const from = rule.generatedThrough && rule.generatedThrough >= today ? addDays(rule.generatedThrough, 1) : today;
+  return occurrences(rule, from, addDays(from, 366 * n)).slice(0, n);
+}
+
+export const occurrenceId = (ruleId: string, date: string) => `${ruleId}:${date}`;
+
+function toTxn(rule: RecurringRule, date: string): Txn | null {
+  const ex = rule.exceptions?.[date];
+  if (ex?.skip) return null;
+  return {
+    id: occurrenceId(rule.id, date),
+    date,
+    payer: rule.payer,
+    category: rule.category,
+    memo: rule.memo,
+    amount: ex?.amount ?? rule.amount,
+    kind: rule.kind,
+    ...(rule.kind === "expense" && rule.personal ? { personal: true } : {}),
+    recurringId: rule.id,
+    occurrence: date,
+  };
+}
+
+/**
+ * 今日までに来た予定日の明細を作る。既に同じルール・予定日の明細があるものは作らない。
+ * 戻り値の rules は generatedThrough を進めたもの（何も変わらなければ changed: false）。
+ */
+export function generateDue(rules: RecurringRule[], existing: Txn[], today: string) {
+  const have = new Set(existing.filter((t) => t.recurringId).map((t) => `${t.recurringId}|${t.occurrence}`));
+  const txns: Txn[] = [];
+  let changed = false;
+  const next = rules.map((rule) => {
+    if (rule.generatedThrough && rule.generatedThrough >= today) return rule;
+    const from = rule.generatedThrough ? addDays(rule.generatedThrough, 1) : rule.startDate;
+    for (const d of occurrences(rule, from, today)) {
+      if (have.has(`${rule.id}|${d}`)) continue;
+      const t = toTxn(rule, d);
+      if (t) txns.push(t);
+    }
+    changed = true;
+    return { ...rule, generatedThrough: today };
+  });
+  return { txns, rules: next, changed };
+}
+
+/**
+ * 生成した明細を今の明細に足す。setTxns の updater の中で最新の明細と突き合わせるので、
+ * 同じ生成結果で 2 回呼ばれても（StrictMode の effect の二重実行など）重複しない。
+ */
+export function withGenerated(prev: Txn[], generated: Txn[]): Txn[] {
+  const ids = new Set(prev.map((t) => t.id));
+  const have = new Set(prev.filter((t) => t.recurringId).map((t) => `${t.recurringId}|${t.occurrence}`));
+  const add = generated.filter((t) => !ids.has(t.id) && !have.has(`${t.recurringId}|${t.occurrence}`));
+  return add.length ? [...add, ...prev] : prev;
+}
+
+/** 1 回分の変更（null でその回の変更を取り消す） */
+export function setException(rule: RecurringRule, date: string, ex: RecurException | null): RecurringRule {
+  const exceptions = { ...(rule.exceptions ?? {}) };
+  if (ex) exceptions[date] = ex;
+  else delete exceptions[date];
+  return { ...rule, exceptions };
+}
+
+/** スケジュールの説明（一覧表示用） */
+export function describeSchedule(rule: RecurringRule): string {
+  const base =
+    rule.freq === "monthly" ? `毎月${rule.day}日`
+      : rule.freq === "monthEnd" ? "毎月末"
+        : rule.freq === "yearly" ? `毎年${rule.month}月${rule.day}日`
+          : rule.interval > 1 ? `${rule.interval}週ごと` : "毎週";
+  return rule.endDate ? `${base}（${rule.endDate}まで）` : base;
+}
+
+export function newRule(today: string, payer: string): RecurringRule {
+  const d = parse(today);
+  return {
+    id: randomId(),
+    memo: "",
+    amount: 0,
+    category: "住居",
+    payer,
+    kind: "expense",
+    freq: "monthly",
+    day: d.getUTCDate(),
+    month: d.getUTCMonth() + 1,
+    interval: 1,
+    startDate: today,
+  };
+}
@@ -0,0 +1,150 @@
+import type { Txn } from "./types";
+import type { Household } from "./household";
+import {
+  API_PREFIX,
+  type ApiErrorBody,
+  type CreateHouseholdRequest,
+  type CreateHouseholdResponse,
+  type HouseholdBudgets,
+  type ChangesResponse,
+  type HouseholdSnapshot,
+  MAX_BATCH,
+  type PushChange,
+  type PushResponse,
+  type TxnBatch,
+} from "./syncProtocol";
+
+// ====== 同期サーバのクライアント ======
+// 接続先はこの端末だけの設定なので、家計簿のデータ（IndexedDB）とは別に localStorage に置く。
+// 未設定ならサーバには一切つながず、ローカルだけで動く。
+
+export type RemoteConfig = {
+  url: string;             // 例: http://192.168.0.10:8787
+  householdId: string;
+  token: string;
+};
+
+const CONFIG_KEY = "kakeibo-remote";
+
+// 応答がないまま待ち続けない（起動時の同期で画面が出なくなるのを防ぐ）
+const TIMEOUT_MS = 15_000;
+
+export function loadRemoteConfig(): RemoteConfig | null {
+  try {
+    const c = JSON.parse(localStorage.getItem(CONFIG_KEY) || "null");
+    return c && typeof c.url === "string" && typeof c.householdId === "string" && typeof c.token === "string" ? c : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveRemoteConfig(c: RemoteConfig | null) {
+  if (c) localStorage.setItem(CONFIG_KEY, JSON.stringify(c));
+  else localStorage.removeItem(CONFIG_KEY);
+}
+
+/** もう一台の端末に渡す招待コード（世帯 ID とトークン） */
+export const inviteCode = (c: RemoteConfig) => `${c.householdId}.${c.token}`;
+
+export function parseInviteCode(url: string, code: string): RemoteConfig | null {
+  const m = /^\s*(h_[\w-]+)\.([\w-]+)\s*$/.exec(code);
+  return m ? { url: normalizeUrl(url), householdId: m[1], token: m[2] } : null;
+}
+
+export const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, "");
+
+export class RemoteError extends Error {
+  status: number;
+  details: string[];
+  constructor(status: number, message: string, details: string[] = []) {
+    super(message);
+    this.name = "RemoteError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+async function call<T>(url: string, method: string, path: string, token?: string, body?: unknown): Promise<T> {
+  let r: Response;
+  try {
+    r = await fetch(`${normalizeUrl(url)}${API_PREFIX}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+  } catch (e: any) {
+    throw new RemoteError(0, `サーバに接続できません: ${e?.message ?? String(e)}`);
+  }
+  if (r.status === 204) return undefined as T;
+  const txt = await r.text();
+  if (!r.ok) {
+    let err: Partial<ApiErrorBody> = {};
+    try {
+      err = JSON.parse(txt);
+    } catch {
+      // JSON 以外（プロキシのエラーページなど）
+    }
+    throw new RemoteError(r.status, err.error || `HTTP ${r.status}`, err.details ?? []);
+  }
+  return JSON.parse(txt) as T;
+}
+
+const hh = (c: RemoteConfig) => `/households/${encodeURIComponent(c.householdId)}`;
+
+export async function checkServer(url: string): Promise<void> {
+  await call(url, "GET", "/health");
+}
+
+/** 世帯を作り、この端末の明細をまとめて送る */
+export async function createRemoteHousehold(
+  url: string,
+  data: CreateHouseholdRequest & { txns: Txn[] }
+): Promise<RemoteConfig> {
+  const { txns, ...req } = data;
+  const res = await call<CreateHouseholdResponse>(url, "POST", "/households", undefined, req);
+  const cfg: RemoteConfig = { url: normalizeUrl(url), ...res };
+  await pushTxns(cfg, { put: txns, remove: [] });
+  return cfg;
+}
+
+export function fetchSnapshot(c: RemoteConfig, opts: { txns?: boolean } = {}): Promise<HouseholdSnapshot> {
+  return call(c.url, "GET", `${hh(c)}${opts.txns === false ? "?txns=0" : ""}`, c.token);
+}
+
+/** since（カーソル）より後の明細の変更 */
+export function fetchChanges(c: RemoteConfig, since: number): Promise<ChangesResponse> {
+  return call(c.url, "GET", `${hh(c)}/changes?since=${since}`, c.token);
+}
+
+/** 手元の変更を送る。件数は MAX_BATCH 以下にすること */
+export function postChanges(c: RemoteConfig, changes: PushChange[]): Promise<PushResponse> {
+  return call(c.url, "POST", `${hh(c)}/changes`, c.token, { changes });
+}
+
+export async function pushTxns(c: RemoteConfig, batch: TxnBatch): Promise<void> {
+  // 上限を超える分は分けて送る
+  const ops = [...batch.put.map((t) => ({ put: t })), ...batch.remove.map((id) => ({ remove: id }))];
+  for (let i = 0; i < ops.length; i += MAX_BATCH) {
+    const chunk = ops.slice(i, i + MAX_BATCH);
+    await call(c.url, "POST", `${hh(c)}/txns/batch`, c.token, {
+      put: chunk.flatMap((o) => ("put" in o ? [o.put] : [])),
+      remove: chunk.flatMap((o) => ("remove" in o ? [o.remove] : [])),
+    });
+  }
+}
+
+export function putHousehold(c: RemoteConfig, h: Household): Promise<unknown> {
+  return call(c.url, "PUT", hh(c), c.token, h);
+}
+
+export function putCategories(c: RemoteConfig, categories: string[]): Promise<unknown> {
+  return call(c.url, "PUT", `${hh(c)}/categories`, c.token, categories);
+}
+
+export function putBudgets(c: RemoteConfig, budgets: HouseholdBudgets): Promise<unknown> {
+  return call(c.url, "PUT", `${hh(c)}/budgets`, c.token, budgets);
+}
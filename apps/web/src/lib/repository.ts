@@ -0,0 +1,275 @@
+import { useEffect, useRef, useState } from "react";
+import type { Txn } from "./types";
+import {
+  LEGACY_PREFIX,
+  type RecordStore,
+  SETTINGS_STORE,
+  STORES,
+  openDb,
+  request,
+  transactionDone,
+} from "./db";
+
+// ====== 保存先（IndexedDB のリポジトリ） ======
+// 起動時に initStorage() で全件を読み込み、React の state はそこから同期的に初期化する（localStorage の頃と同じ使い勝手）。
+// 書き込みは差分だけ：明細・レシートは id ごとに、変わったレコードだけ put / delete する。
+// IndexedDB が使えない環境（古いブラウザのプライベートモードなど）では、従来どおり localStorage に丸ごと保存する。
+//
+// 画面での変更は onLocalChange() の購読者（同期 ./sync.ts）に通知する。
+// 同期で受け取った変更は setRecords() / putSetting() で書き、画面の state も差し替える（このときは通知しない）。
+
+type Backend = "indexeddb" | "localStorage";
+
+let db: IDBDatabase | null = null;
+let backend: Backend = "localStorage";
+const snapshot = {
+  records: {} as Partial<Record<RecordStore, any[]>>,
+  settings: new Map<string, unknown>(),
+};
+
+export const storageBackend = () => backend;
+
+export async function initStorage(): Promise<Backend> {
+  try {
+    db = await openDb();
+    // 同じトランザクションの中で読むので、リクエストは先にまとめて出す
+    const names = Object.values(STORES);
+    const tx = db.transaction([...names, SETTINGS_STORE], "readonly");
+    const settings = tx.objectStore(SETTINGS_STORE);
+    const [keys, values, ...records] = await Promise.all([
+      request(settings.getAllKeys()),
+      request(settings.getAll()),
+      ...names.map((name) => request(tx.objectStore(name).getAll())),
+    ]);
+    names.forEach((name, i) => (snapshot.records[name] = records[i]));
+    keys.forEach((k, i) => snapshot.settings.set(String(k), values[i]));
+    backend = "indexeddb";
+  } catch (e) {
+    console.warn("storage: IndexedDB を開けないため localStorage を使います", e);
+    db = null;
+    backend = "localStorage";
+    for (const name of Object.values(STORES)) snapshot.records[name] = readLegacy(name, []);
+  }
+  return backend;
+}
+
+// 書き込みは順番どおりに 1 本ずつ流す（前の書き込みが終わる前に次の差分が来ても順序が入れ替わらない）
+let queue: Promise<void> = Promise.resolve();
+function enqueue(label: string, work: (db: IDBDatabase) => Promise<void>) {
+  const target = db;
+  if (!target) return;
+  queue = queue.then(() => work(target)).catch((e) => console.error(`storage: ${label} の保存に失敗しました`, e));
+}
+
+function readLegacy<T>(key: string, initial: T): T {
+  try {
+    const raw = localStorage.getItem(LEGACY_PREFIX + key);
+    return raw ? (JSON.parse(raw) as T) : initial;
+  } catch {
+    return initial;
+  }
+}
+
+// ====== 差分 ======
+export type RecordDiff<T> = { put: T[]; remove: string[] };
+
+/** id ごとに比べる。state は不変更新なので、同じ id でも参照が変わったものだけを書き直す */
+export function diffById<T extends { id: string }>(prev: T[], next: T[]): RecordDiff<T> {
+  const before = new Map(prev.map((r) => [r.id, r]));
+  const put: T[] = [];
+  for (const r of next) {
+    if (before.get(r.id) !== r) put.push(r);
+    before.delete(r.id);
+  }
+  return { put, remove: Array.from(before.keys()) };
+}
+
+/**
+ * 手元で書き換えた（diffById で put になる）ものに modifiedAt を付ける。変わっていないものは参照ごとそのまま返す。
+ * バックアップの「合わせて復元」は modifiedAt の新しい方を残すので、利用者の操作で書くときはこれを通す
+ */
+export function touchChanged<T extends { id: string; modifiedAt?: string }>(prev: T[], next: T[], at = new Date().toISOString()): T[] {
+  const changed = new Set(diffById(prev, next).put);
+  if (!changed.size) return next;
+  return next.map((r) => (changed.has(r) ? { ...r, modifiedAt: at } : r));
+}
+
+function persistRecords<T extends { id: string }>(name: RecordStore, prev: T[], next: T[]): RecordDiff<T> {
+  snapshot.records[name] = next;
+  const diff = diffById(prev, next);
+  if (backend === "localStorage") {
+    localStorage.setItem(LEGACY_PREFIX + name, JSON.stringify(next));
+  } else if (diff.put.length || diff.remove.length) {
+    enqueue(name, async (d) => {
+      const tx = d.transaction(name, "readwrite");
+      const store = tx.objectStore(name);
+      for (const r of diff.put) store.put(r);
+      for (const id of diff.remove) store.delete(id);
+      await transactionDone(tx);
+    });
+  }
+  return diff;
+}
+
+function persistSetting(key: string, value: unknown) {
+  snapshot.settings.set(key, value);
+  if (backend === "localStorage") {
+    localStorage.setItem(LEGACY_PREFIX + key, JSON.stringify(value));
+    return;
+  }
+  enqueue(key, async (d) => {
+    const tx = d.transaction(SETTINGS_STORE, "readwrite");
+    tx.objectStore(SETTINGS_STORE).put(value, key);
+    await transactionDone(tx);
+  });
+}
+
+// ====== 変更の通知 ======
+export type LocalChange =
+  | { type: "records"; name: RecordStore; before: Map<string, any>; diff: RecordDiff<any> }
+  | { type: "setting"; key: string; value: unknown };
+
+const localListeners = new Set<(c: LocalChange) => void>();
+
+/** 画面での変更を購読する。戻り値で解除 */
+export function onLocalChange(fn: (c: LocalChange) => void): () => void {
+  localListeners.add(fn);
+  return () => {
+    localListeners.delete(fn);
+  };
+}
+
+// 同期で受け取った変更を、表示中の state に流し込むための購読者
+const recordSubscribers = new Map<RecordStore, Set<(next: any[]) => void>>();
+const settingSubscribers = new Map<string, Set<(next: unknown) => void>>();
+
+const subscribersOf = <K, V>(map: Map<K, Set<V>>, key: K) => {
+  if (!map.has(key)) map.set(key, new Set());
+  return map.get(key)!;
+};
+
+export function getRecords<T>(name: RecordStore): T[] {
+  return (snapshot.records[name] as T[] | undefined) ?? [];
+}
+
+// notify: 画面での変更と同じように onLocalChange に通知する（バックアップからの復元など。同期サーバにも送られる）
+type PutOptions = { notify?: boolean };
+
+/** 画面の外（同期など）からレコードを差し替える */
+export function setRecords<T extends { id: string }>(name: RecordStore, update: (prev: T[]) => T[], opts: PutOptions = {}) {
+  const prev = getRecords<T>(name);
+  const next = update(prev);
+  if (next === prev) return;
+  const before = new Map(prev.map((r) => [r.id, r]));
+  const diff = persistRecords(name, prev, next);
+  subscribersOf(recordSubscribers, name).forEach((fn) => fn(next));
+  if (opts.notify && (diff.put.length || diff.remove.length)) localListeners.forEach((fn) => fn({ type: "records", name, before, diff }));
+}
+
+export function getSetting<T>(key: string, initial: T): T {
+  if (snapshot.settings.has(key)) return snapshot.settings.get(key) as T;
+  return backend === "localStorage" ? readLegacy(key, initial) : initial;
+}
+
+/** 画面の外（同期など）から設定を書く */
+export function putSetting(key: string, value: unknown, opts: PutOptions = {}) {
+  persistSetting(key, value);
+  subscribersOf(settingSubscribers, key).forEach((fn) => fn(value));
+  if (opts.notify) localListeners.forEach((fn) => fn({ type: "setting", key, value }));
+}
+
+/** 保存されている設定をすべて（バックアップ用） */
+export function allSettings(): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  if (backend === "localStorage") {
+    const records = new Set<string>(Object.values(STORES));
+    for (let i = 0; i < localStorage.length; i++) {
+      const k = localStorage.key(i);
+      const name = k?.startsWith(LEGACY_PREFIX) ? k.slice(LEGACY_PREFIX.length) : null;
+      if (name && !records.has(name)) out[name] = readLegacy(name, null);
+    }
+  }
+  snapshot.settings.forEach((v, k) => (out[k] = v));
+  return out;
+}
+
+// ====== フック ======
+
+/** id を持つレコードの一覧（明細・レシート・ゴミ箱）。書き込みは差分だけ */
+export function useRecords<T extends { id: string }>(name: RecordStore) {
+  const [value, setValue] = useState<T[]>(() => getRecords<T>(name));
+  const saved = useRef(value);
+  useEffect(() => {
+    const subs = subscribersOf(recordSubscribers, name);
+    const fn = (next: any[]) => {
+      saved.current = next;
+      setValue(next);
+    };
+    subs.add(fn);
+    return () => {
+      subs.delete(fn);
+    };
+  }, [name]);
+  useEffect(() => {
+    if (saved.current === value) return;
+    const before = new Map(saved.current.map((r) => [r.id, r]));
+    const diff = persistRecords(name, saved.current, value);
+    saved.current = value;
+    if (diff.put.length || diff.remove.length) localListeners.forEach((fn) => fn({ type: "records", name, before, diff }));
+  }, [name, value]);
+  return [value, setValue] as const;
+}
+
+/** 設定など、キーごとに丸ごと保存する値 */
+export function useSetting<T>(key: string, initial: T) {
+  const [value, setValue] = useState<T>(() => getSetting(key, initial));
+  const saved = useRef(value);
+  useEffect(() => {
+    const subs = subscribersOf(settingSubscribers, key);
+    const fn = (next: unknown) => {
+      saved.current = next as T;
+      setValue(next as T);
+    };
+    subs.add(fn);
+    return () => {
+      subs.delete(fn);
+    };
+  }, [key]);
+  useEffect(() => {
+    if (saved.current === value) return;
+    saved.current = value;
+    persistSetting(key, value);
+    localListeners.forEach((fn) => fn({ type: "setting", key, value }));
+  }, [key, value]);
+  return [value, setValue] as const;
+}
+
+// ====== 索引を使った読み出し ======
+// 画面は起動時に読み込んだ全件を使うが、一部だけ欲しい処理（同期・集計など）はこちらを使う。
+
+// match は完全一致の値、または [from, to]（両端を含む）
+async function byIndex<T>(name: RecordStore, index: string, match: string | [string, string]): Promise<T[]> {
+  if (!db) {
+    return getRecords<any>(name).filter((r) => (typeof match === "string" ? r[index] === match : r[index] >= match[0] && r[index] <= match[1]));
+  }
+  const range = typeof match === "string" ? IDBKeyRange.only(match) : IDBKeyRange.bound(match[0], match[1]);
+  return request(db.transaction(name).objectStore(name).index(index).getAll(range));
+}
+
+/** 期間内の明細（from・to を含む YYYY-MM-DD） */
+export function txnsBetween(from: string, to: string): Promise<Txn[]> {
+  return byIndex<Txn>(STORES.txns, "date", [from, to]);
+}
+
+/** 月の明細（YYYY-MM） */
+export function txnsInMonth(month: string): Promise<Txn[]> {
+  return txnsBetween(`${month}-01`, `${month}-31`);
+}
+
+export function txnsByCategory(category: string): Promise<Txn[]> {
+  return byIndex<Txn>(STORES.txns, "category", category);
+}
+
+export function txnsByPayer(payer: string): Promise<Txn[]> {
+  return byIndex<Txn>(STORES.txns, "payer", payer);
+}
@@ -0,0 +1,129 @@
+import type { Txn } from "./types";
+import { randomId } from "./utils";
+
+// ====== 自動分類ルール ======
+// メモ（またはレシートの店名）に一致したらカテゴリ・支払者・タグを付ける。
+// 複数のルールに一致したときは priority が大きいものを使う（同じなら新しいルール）。
+// OCR・CSV 取り込み・手入力に適用し、明細一覧でカテゴリを直したときにルール化を提案する。
+
+export type MatchType = "keyword" | "regex" | "store";
+
+export const MATCH_TYPE_LABELS: Record<MatchType, string> = {
+  keyword: "メモにキーワードを含む",
+  regex: "メモが正規表現に一致",
+  store: "店名",
+};
+
+export type CategoryRule = {
+  id: string;
+  match: MatchType;
+  pattern: string;
+  category: string;
+  payer?: string;          // Member.id（空なら変えない）
+  tags?: string[];         // 追加するタグ
+  priority: number;
+  enabled: boolean;
+  createdAt: string;       // ISO
+};
+
+/** 店名の参照先（レシートの店名。CSV などレシートがない明細はメモを店名とみなす） */
+export type StoreLookup = (t: Txn) => string | undefined;
+
+const norm = (s: string) => s.normalize("NFKC").toLowerCase().replace(/\s+/g, "");
+
+// 正規表現はルールごとにキャッシュ（不正なパターンは一致しない扱い）
+const regexCache = new Map<string, RegExp | null>();
+function toRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, "i"));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern)!;
+}
+
+export function isValidPattern(match: MatchType, pattern: string): boolean {
+  if (!pattern.trim()) return false;
+  return match !== "regex" || toRegex(pattern) !== null;
+}
+
+export function matchesRule(rule: CategoryRule, t: Txn, storeOf?: StoreLookup): boolean {
+  if (!rule.enabled || !rule.pattern.trim()) return false;
+  switch (rule.match) {
+    case "keyword":
+      return norm(t.memo).includes(norm(rule.pattern));
+    case "regex":
+      return toRegex(rule.pattern)?.test(t.memo) ?? false;
+    case "store": {
+      const store = norm(storeOf?.(t) || t.memo);
+      return !!store && store.startsWith(norm(rule.pattern));
+    }
+  }
+  return false;
+}
+
+const byPriority = (a: CategoryRule, b: CategoryRule) =>
+  b.priority - a.priority || b.createdAt.localeCompare(a.createdAt);
+
+/** 一致するルールのうち最優先のもの */
+export function findRule(rules: CategoryRule[], t: Txn, storeOf?: StoreLookup): CategoryRule | undefined {
+  return [...rules].sort(byPriority).find((r) => matchesRule(r, t, storeOf));
+}
+
+/** ルールの内容を明細に反映する（カテゴリ・支払者は上書き、タグは追加） */
+export function applyRule<T extends Txn>(rule: CategoryRule, t: T): T {
+  const tags = rule.tags?.length ? Array.from(new Set([...(t.tags ?? []), ...rule.tags])) : t.tags;
+  return {
+    ...t,
+    category: rule.category || t.category,
+    ...(rule.payer ? { payer: rule.payer } : {}),
+    ...(tags?.length ? { tags } : {}),
+  };
+}
+
+/** 取り込み時にまとめて適用（精算の送金には適用しない） */
+export function applyRules<T extends Txn>(rules: CategoryRule[], txns: T[], storeOf?: StoreLookup): T[] {
+  if (!rules.some((r) => r.enabled)) return txns;
+  const sorted = [...rules].sort(byPriority);
+  return txns.map((t) => {
+    if (t.kind === "transfer") return t;
+    const rule = sorted.find((r) => matchesRule(r, t, storeOf));
+    return rule ? applyRule(rule, t) : t;
+  });
+}
+
+/**
+ * 過去の明細のうち、このルールで変わるもの（カテゴリ・支払者・タグのいずれか）。
+ * より優先度の高いルールに先に一致する明細は数えない。
+ */
+export function affectedBy(rule: CategoryRule, rules: CategoryRule[], txns: Txn[], storeOf?: StoreLookup): Txn[] {
+  return txns.filter((t) => {
+    if (t.kind === "transfer" || !matchesRule({ ...rule, enabled: true }, t, storeOf)) return false;
+    const winner = findRule(rules.filter((r) => r.id !== rule.id).concat({ ...rule, enabled: true }), t, storeOf);
+    if (winner?.id !== rule.id) return false;
+    const next = applyRule(rule, t);
+    return next.category !== t.category || next.payer !== t.payer || (next.tags?.length ?? 0) !== (t.tags?.length ?? 0);
+  });
+}
+
+/** 明細一覧でのカテゴリ修正からルールを作る（数字・空白で区切った一番長い部分をキーワードにする） */
+export function ruleFromEdit(t: Txn, category: string): CategoryRule {
+  const parts = t.memo.split(/[\s\d０-９/／:]+/).filter(Boolean);
+  const keyword = parts.sort((a, b) => b.length - a.length)[0] || t.memo.trim();
+  return newCategoryRule({ match: "keyword", pattern: keyword, category });
+}
+
+export function newCategoryRule(patch: Partial<CategoryRule> = {}): CategoryRule {
+  return {
+    id: randomId(),
+    match: "keyword",
+    pattern: "",
+    category: "その他",
+    priority: 0,
+    enabled: true,
+    createdAt: new Date().toISOString(),
+    ...patch,
+  };
+}
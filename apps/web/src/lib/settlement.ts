@@ -0,0 +1,170 @@
+import type { Txn } from "./types";
+import { type Household, SHARED_PAYER_ID } from "./household";
+import { randomId } from "./utils";
+
+// ====== 割り勘精算 ======
+// 対象: 期間内の支出のうち、個人が立て替えたもの（payer が共同ではなく、personal でない）。
+// 精算を記録すると kind: "transfer" の明細が作られ、次回の計算では支払済みとして扱われるので残高は 0 に戻る。
+
+export type SplitMode = "equal" | "fixed" | "income";
+
+export type SplitConfig = {
+  mode: SplitMode;
+  shares: Record<string, number>; // fixed のときの負担割合（%）。Member.id → %
+};
+
+export const DEFAULT_SPLIT: SplitConfig = { mode: "equal", shares: {} };
+
+export type DateRange = { from: string; to: string }; // YYYY-MM-DD（両端含む）
+
+export type Transfer = { from: string; to: string; amount: number };
+
+export type SettlementRecord = {
+  id: string;
+  createdAt: string;       // ISO
+  range: DateRange;
+  mode: SplitMode;
+  total: number;           // 精算対象の支出合計
+  transfers: Array<Transfer & { txnId: string }>;
+  voidedAt?: string;       // 取り消し日時（履歴には残す）
+};
+
+export type MemberBalance = {
+  id: string;
+  paid: number;            // 立て替えた額（精算済み送金を反映）
+  share: number;           // 負担割合 0..1
+  owed: number;            // 本来の負担額
+  balance: number;         // paid - owed（+ なら受け取る側）
+};
+
+export type SettlementResult = {
+  total: number;
+  count: number;
+  members: MemberBalance[];
+  transfers: Transfer[];
+};
+
+export const monthRange = (month: string): DateRange => {
+  const [y, m] = month.split("-").map(Number);
+  const last = new Date(y, m, 0).getDate();
+  return { from: `${month}-01`, to: `${month}-${String(last).padStart(2, "0")}` };
+};
+
+const inRange = (t: Txn, r: DateRange) => t.date >= r.from && t.date <= r.to;
+
+export const isSharedExpense = (t: Txn) =>
+  t.kind === "expense" && t.payer !== SHARED_PAYER_ID && !t.personal;
+
+/** 負担割合を計算（合計 1）。割合が決められない場合は均等にする */
+function computeShares(ids: string[], txns: Txn[], range: DateRange, cfg: SplitConfig) {
+  const weights: Record<string, number> = {};
+  if (cfg.mode === "fixed") {
+    for (const id of ids) weights[id] = Math.max(0, Number(cfg.shares[id]) || 0);
+  } else if (cfg.mode === "income") {
+    for (const id of ids) weights[id] = 0;
+    for (const t of txns) {
+      if (t.kind === "income" && inRange(t, range) && t.payer in weights) weights[t.payer] += t.amount;
+    }
+  } else {
+    for (const id of ids) weights[id] = 1;
+  }
+  const sum = ids.reduce((s, id) => s + weights[id], 0);
+  const shares: Record<string, number> = {};
+  for (const id of ids) shares[id] = sum > 0 ? weights[id] / sum : 1 / ids.length;
+  return shares;
+}
+
+/** 残高から送金回数が最小に近くなる組み合わせを作る（最大の貸し手と借り手から順に相殺） */
+export function minimalTransfers(balances: Record<string, number>): Transfer[] {
+  const creditors = Object.entries(balances).filter(([, v]) => v > 0).map(([id, v]) => ({ id, v }));
+  const debtors = Object.entries(balances).filter(([, v]) => v < 0).map(([id, v]) => ({ id, v: -v }));
+  const out: Transfer[] = [];
+  while (creditors.length && debtors.length) {
+    creditors.sort((a, b) => b.v - a.v);
+    debtors.sort((a, b) => b.v - a.v);
+    const c = creditors[0];
+    const d = debtors[0];
+    const amount = Math.min(c.v, d.v);
+    if (amount > 0) out.push({ from: d.id, to: c.id, amount });
+    c.v -= amount;
+    d.v -= amount;
+    if (c.v <= 0) creditors.shift();
+    if (d.v <= 0) debtors.shift();
+  }
+  return out;
+}
+
+export function computeSettlement(
+  txns: Txn[],
+  household: Household,
+  range: DateRange,
+  cfg: SplitConfig
+): SettlementResult {
+  const target = txns.filter((t) => inRange(t, range) && isSharedExpense(t));
+  const transfers = txns.filter((t) => inRange(t, range) && t.kind === "transfer");
+
+  // 有効メンバー + 期間内に登場する無効メンバー
+  const appears = new Set([...target, ...transfers].flatMap((t) => [t.payer, t.payee ?? ""]));
+  const ids = household.members.filter((m) => m.active || appears.has(m.id)).map((m) => m.id);
+  if (ids.length === 0) return { total: 0, count: 0, members: [], transfers: [] };
+
+  const paid: Record<string, number> = {};
+  for (const id of ids) paid[id] = 0;
+  for (const t of target) if (t.payer in paid) paid[t.payer] += t.amount;
+  // 記録済みの精算送金: 送った側は支払済み、受け取った側は受取済み
+  for (const t of transfers) {
+    if (t.payer in paid) paid[t.payer] += t.amount;
+    if (t.payee && t.payee in paid) paid[t.payee] -= t.amount;
+  }
+
+  const total = target.filter((t) => t.payer in paid).reduce((s, t) => s + t.amount, 0);
+  const shares = computeShares(ids, txns, range, cfg);
+
+  // 円単位に丸め、端数は最後のメンバーに寄せて合計を total に揃える
+  const owed: Record<string, number> = {};
+  let rest = total;
+  ids.forEach((id, i) => {
+    owed[id] = i === ids.length - 1 ? rest : Math.round(total * shares[id]);
+    rest -= owed[id];
+  });
+
+  const balances: Record<string, number> = {};
+  for (const id of ids) balances[id] = paid[id] - owed[id];
+
+  return {
+    total,
+    count: target.length,
+    members: ids.map((id) => ({ id, paid: paid[id], share: shares[id], owed: owed[id], balance: balances[id] })),
+    transfers: minimalTransfers(balances),
+  };
+}
+
+/** 精算の記録と、それに紐づく送金明細を作る */
+export function buildSettlement(
+  result: SettlementResult,
+  range: DateRange,
+  mode: SplitMode,
+  nameOf: (id: string) => string
+): { record: SettlementRecord; txns: Txn[] } {
+  const id = randomId();
+  const txns: Txn[] = result.transfers.map((tr) => ({
+    id: randomId(),
+    date: range.to,
+    payer: tr.from,
+    payee: tr.to,
+    category: "精算",
+    memo: `精算 ${nameOf(tr.from)} → ${nameOf(tr.to)}（${range.from}〜${range.to}）`,
+    amount: tr.amount,
+    kind: "transfer",
+    settlementId: id,
+  }));
+  const record: SettlementRecord = {
+    id,
+    createdAt: new Date().toISOString(),
+    range,
+    mode,
+    total: result.total,
+    transfers: result.transfers.map((tr, i) => ({ ...tr, txnId: txns[i].id })),
+  };
+  return { record, txns };
+}
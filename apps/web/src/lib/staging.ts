@@ -0,0 +1,148 @@
+import type { Txn } from "./types";
+import { type Receipt, type ReceiptMeta, type TaxRate, allocateReceipt, resolveTaxRate } from "./receipt";
+import type { OcrItem } from "./ocr";
+import { dupKey, randomId } from "./utils";
+
+// ====== OCR 結果のステージング（保存前の確認・修正） ======
+
+export type StagedLine = Txn & {
+  excluded: boolean;       // true = 保存しない
+  selected: boolean;       // 結合の対象
+  listPrice: number;       // レシートに印字された価格（amount は値引・外税を配分した支払額）
+  taxRate: TaxRate;
+  manualAmount?: boolean;  // 支払額を手で直した（配分し直しても amount を変えない）
+};
+
+export type StagedReceipt = {
+  id: string;
+  fileName: string;
+  imageUrl: string;        // URL.createObjectURL（破棄時に revoke する）
+  raw: string;             // OCR の生テキスト
+  meta: ReceiptMeta;       // 店名・日時・集計欄（保存時に Receipt になる）
+  lines: StagedLine[];
+};
+
+/**
+ * 値引・外税を保存対象の行に配分し直し、amount を支払額にする。
+ * 除外行は配分の対象外（金額もそのまま）。支払額を手で直した行は配分には数えるが、amount は直した値のまま残す。
+ */
+export function reallocate(r: StagedReceipt): StagedReceipt {
+  const included = r.lines.filter((l) => !l.excluded);
+  const alloc = allocateReceipt(
+    included.map((l) => ({ memo: l.memo, price: l.listPrice, taxRate: l.taxRate })),
+    r.meta
+  );
+  const amounts = new Map(included.flatMap((l, i) => (l.manualAmount ? [] : [[l.id, alloc[i].amount] as const])));
+  return { ...r, lines: r.lines.map((l) => (amounts.has(l.id) ? { ...l, amount: amounts.get(l.id)! } : l)) };
+}
+
+/** OCR 結果をステージングに載せる。既存明細と重複しそうな行は最初から除外しておく */
+export function stageReceipt(file: File, items: OcrItem[], raw: string, meta: ReceiptMeta, existing: Txn[]): StagedReceipt {
+  const keys = new Set(existing.map(dupKey));
+  const staged = reallocate({
+    id: randomId(),
+    fileName: file.name,
+    imageUrl: URL.createObjectURL(file),
+    raw,
+    meta,
+    lines: items.map(({ taxRate, ...t }) => ({
+      ...t,
+      excluded: false,
+      selected: false,
+      listPrice: t.amount,
+      taxRate: resolveTaxRate(taxRate, meta),
+    })),
+  });
+  // 重複判定は配分後の金額（保存済み明細と同じ基準）で行い、除外した分を除いて配分し直す
+  const lines = staged.lines.map((l) => ({ ...l, excluded: keys.has(dupKey(l)) }));
+  return lines.some((l) => l.excluded) ? reallocate({ ...staged, lines }) : { ...staged, lines };
+}
+
+export function releaseStaged(receipts: StagedReceipt[]) {
+  for (const r of receipts) URL.revokeObjectURL(r.imageUrl);
+}
+
+/**
+ * 重複の疑いがある行の id。既存明細と dupKey が一致するか、別のレシートの保存予定行と一致するもの
+ * （同じレシート内の同一商品は正当な 2 点買いなので対象外）。
+ */
+export function findDuplicateLines(receipts: StagedReceipt[], existing: Txn[]): Set<string> {
+  const existingKeys = new Set(existing.map(dupKey));
+  const seen = new Map<string, { receiptId: string; lineId: string }>();
+  const dups = new Set<string>();
+  for (const r of receipts) {
+    for (const l of r.lines) {
+      const k = dupKey(l);
+      if (existingKeys.has(k)) dups.add(l.id);
+      if (l.excluded) continue;
+      const first = seen.get(k);
+      if (!first) {
+        seen.set(k, { receiptId: r.id, lineId: l.id });
+      } else if (first.receiptId !== r.id) {
+        dups.add(first.lineId);
+        dups.add(l.id);
+      }
+    }
+  }
+  return dups;
+}
+
+/** 選択行の税率が混ざっているか（税率の違う行は 1 行にできない） */
+export function hasMixedTaxRates(lines: StagedLine[]): boolean {
+  return new Set(lines.filter((l) => l.selected).map((l) => l.taxRate)).size > 1;
+}
+
+/**
+ * 選択行を 1 行にまとめる（印字価格は合計、メモは連結、日付・カテゴリ・支払者は先頭行）。
+ * 支払額は配分し直す。手で直した行を含むときは支払額の合計を手入力の値として残す。税率が混ざっていれば何もしない。
+ */
+export function mergeSelected(r: StagedReceipt): StagedReceipt {
+  const { lines } = r;
+  const sel = lines.filter((l) => l.selected);
+  if (sel.length < 2 || hasMixedTaxRates(lines)) return r;
+  const manual = sel.some((l) => l.manualAmount);
+  const merged: StagedLine = {
+    ...sel[0],
+    id: randomId(),
+    memo: sel.map((l) => l.memo).join(" + "),
+    amount: sel.reduce((s, l) => s + l.amount, 0),
+    listPrice: sel.reduce((s, l) => s + l.listPrice, 0),
+    selected: false,
+    ...(manual ? { manualAmount: true } : {}),
+  };
+  const at = lines.indexOf(sel[0]);
+  const rest = lines.filter((l) => !l.selected);
+  return reallocate({ ...r, lines: [...rest.slice(0, at), merged, ...rest.slice(at)] });
+}
+
+/** 1 行を 2 行に分ける（金額は半分ずつ、端数は 1 行目） */
+export function splitLine(lines: StagedLine[], id: string): StagedLine[] {
+  const i = lines.findIndex((l) => l.id === id);
+  if (i < 0) return lines;
+  const l = lines[i];
+  const half = Math.floor(l.amount / 2);
+  const halfPrice = Math.floor(l.listPrice / 2);
+  const a: StagedLine = { ...l, amount: l.amount - half, listPrice: l.listPrice - halfPrice, selected: false };
+  const b: StagedLine = { ...l, id: randomId(), amount: half, listPrice: halfPrice, selected: false };
+  return [...lines.slice(0, i), a, b, ...lines.slice(i + 1)];
+}
+
+/** 保存対象の明細（除外行を落とし、ステージング用のフラグを外す） */
+export function includedLines(r: StagedReceipt): Txn[] {
+  return r.lines
+    .filter((l) => !l.excluded && l.amount > 0)
+    .map(({ excluded: _excluded, selected: _selected, listPrice: _listPrice, taxRate: _taxRate, manualAmount: _manual, ...t }) => t);
+}
+
+/** 保存するレシートと明細。明細は receiptId でレシートに紐づける（明細が 0 件のレシートは作らない） */
+export function stagedToRecords(receipts: StagedReceipt[]): { receipts: Receipt[]; txns: Txn[] } {
+  const out: { receipts: Receipt[]; txns: Txn[] } = { receipts: [], txns: [] };
+  const createdAt = new Date().toISOString();
+  for (const r of receipts) {
+    const lines = includedLines(r);
+    if (!lines.length) continue;
+    out.receipts.push({ ...r.meta, id: r.id, createdAt });
+    out.txns.push(...lines.map((t) => ({ ...t, receiptId: r.id })));
+  }
+  return out;
+}
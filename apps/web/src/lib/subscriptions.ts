@@ -0,0 +1,172 @@
+import type { Txn } from "./types";
+import { type RecurringRule, newRule } from "./recurring";
+
+// ====== サブスク・定期的な請求の検出 ======
+// カテゴリに関係なく、メモが同じで金額が近い支出が一定間隔で繰り返されているものを拾う。
+// 解約済みにしたものは「請求が来ない」のが正常なので、未請求の警告を出さない。
+
+export type Cadence = "weekly" | "biweekly" | "monthly" | "yearly";
+
+export const CADENCE_LABELS: Record<Cadence, string> = {
+  weekly: "毎週",
+  biweekly: "2週ごと",
+  monthly: "毎月",
+  yearly: "毎年",
+};
+
+// 周期ごとの日数と許容幅（月末・営業日ずれを吸収する）
+const CADENCES: Array<{ cadence: Cadence; days: number; tolerance: number }> = [
+  { cadence: "weekly", days: 7, tolerance: 1 },
+  { cadence: "biweekly", days: 14, tolerance: 2 },
+  { cadence: "monthly", days: 30.44, tolerance: 4 },
+  { cadence: "yearly", days: 365.25, tolerance: 15 },
+];
+
+export type PriceChange = { date: string; from: number; to: number };
+
+export type SubscriptionMark = {
+  status: "cancelled";
+  at: string;              // 解約済みにした日（YYYY-MM-DD）
+};
+
+export type DetectedSubscription = {
+  key: string;             // 正規化したメモ（マークの保存キー）
+  memo: string;            // 直近の明細のメモ
+  category: string;
+  payer: string;
+  cadence: Cadence;
+  count: number;
+  firstDate: string;
+  lastDate: string;
+  lastAmount: number;
+  annualCost: number;      // 直近の金額 × 年間回数
+  priceChanges: PriceChange[];
+  nextExpected: string;    // 次の請求予定日
+  overdue: boolean;        // 予定日を過ぎても請求がない
+  cancelled: boolean;
+  chargedAfterCancel: boolean; // 解約済みにした後に請求があった
+  hasRule: boolean;        // 同じメモの定期ルールがある
+  txnIds: string[];
+};
+
+/** メモを比較用に正規化（全角→半角・小文字・数字や記号を除く） */
+export function subscriptionKey(memo: string): string {
+  return memo
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\d+/g, "")
+    .replace(/[\s\-_/.,:;()[\]（）「」【】*#＃]+/g, "")
+    .trim();
+}
+
+const DAY = 86_400_000;
+const toTime = (d: string) => Date.parse(`${d}T00:00:00Z`);
+const fmt = (t: number) => new Date(t).toISOString().slice(0, 10);
+
+const median = (xs: number[]) => {
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+};
+
+/** 間隔の大半が同じ周期に収まっていればその周期 */
+function detectCadence(intervals: number[]) {
+  const m = median(intervals);
+  const c = CADENCES.find((c) => Math.abs(m - c.days) <= c.tolerance);
+  if (!c) return null;
+  const regular = intervals.filter((d) => Math.abs(d - c.days) <= c.tolerance).length;
+  return regular / intervals.length >= 0.7 ? c : null;
+}
+
+/** 価格改定（金額が変わり、その後も新しい金額が続いたところ） */
+function findPriceChanges(charges: Txn[]): PriceChange[] {
+  const out: PriceChange[] = [];
+  for (let i = 1; i < charges.length; i++) {
+    const prev = charges[i - 1].amount;
+    const cur = charges[i].amount;
+    const next = charges[i + 1]?.amount;
+    if (cur !== prev && (next === undefined || next === cur)) out.push({ date: charges[i].date, from: prev, to: cur });
+  }
+  return out;
+}
+
+export function detectSubscriptions(
+  txns: Txn[],
+  marks: Record<string, SubscriptionMark>,
+  rules: RecurringRule[],
+  today: string
+): DetectedSubscription[] {
+  const ruleKeys = new Set(rules.map((r) => subscriptionKey(r.memo)));
+  const groups = new Map<string, Txn[]>();
+  for (const t of txns) {
+    if (t.kind !== "expense") continue;
+    const key = subscriptionKey(t.memo);
+    if (!key) continue;
+    const g = groups.get(key);
+    if (g) g.push(t);
+    else groups.set(key, [t]);
+  }
+
+  const out: DetectedSubscription[] = [];
+  for (const [key, list] of groups) {
+    const charges = [...list].sort((a, b) => a.date.localeCompare(b.date));
+    // 年 1 回のものは 2 回で判定、それ以外は 3 回以上
+    if (charges.length < 2) continue;
+    const intervals = charges.slice(1).map((t, i) => (toTime(t.date) - toTime(charges[i].date)) / DAY);
+    const c = detectCadence(intervals);
+    if (!c || (c.cadence !== "yearly" && charges.length < 3)) continue;
+
+    // 金額が近いものが大半であること（スーパーなど、金額がばらばらの店を除く）。
+    // 値上げで金額が変わった場合は、変わり目以外がほぼ同額なら対象にする
+    const mid = median(charges.map((t) => t.amount));
+    const similar = charges.filter((t) => Math.abs(t.amount - mid) <= mid * 0.2).length;
+    const priceChanges = findPriceChanges(charges);
+    const stepwise =
+      priceChanges.length <= 2 &&
+      charges.slice(1).every((t, i) =>
+        Math.abs(t.amount - charges[i].amount) <= charges[i].amount * 0.05 || priceChanges.some((p) => p.date === t.date)
+      );
+    if (similar / charges.length < 0.7 && !stepwise) continue;
+
+    const last = charges[charges.length - 1];
+    const nextTime = toTime(last.date) + c.days * DAY;
+    const mark = marks[key];
+    out.push({
+      key,
+      memo: last.memo,
+      category: last.category,
+      payer: last.payer,
+      cadence: c.cadence,
+      count: charges.length,
+      firstDate: charges[0].date,
+      lastDate: last.date,
+      lastAmount: last.amount,
+      annualCost: Math.round((last.amount * 365.25) / c.days),
+      priceChanges,
+      nextExpected: fmt(nextTime),
+      overdue: !mark && toTime(today) > nextTime + c.tolerance * DAY,
+      cancelled: !!mark,
+      chargedAfterCancel: !!mark && last.date > mark.at,
+      hasRule: ruleKeys.has(key) || charges.some((t) => t.recurringId),
+      txnIds: charges.map((t) => t.id),
+    });
+  }
+  return out.sort((a, b) => b.annualCost - a.annualCost);
+}
+
+/** 検出結果を定期ルールにする（次の予定日から生成するので既存の明細とは重ならない） */
+export function toRecurringRule(s: DetectedSubscription): RecurringRule {
+  const last = new Date(`${s.lastDate}T00:00:00Z`);
+  const base = newRule(s.nextExpected, s.payer);
+  return {
+    ...base,
+    memo: s.memo,
+    amount: s.lastAmount,
+    category: s.category,
+    freq: s.cadence === "yearly" ? "yearly" : s.cadence === "monthly" ? "monthly" : "weekly",
+    day: last.getUTCDate(),
+    month: last.getUTCMonth() + 1,
+    interval: s.cadence === "biweekly" ? 2 : 1,
+    startDate: s.cadence === "monthly" || s.cadence === "yearly" ? fmt(toTime(s.lastDate) + DAY) : s.nextExpected,
+  };
+}
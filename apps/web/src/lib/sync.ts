@@ -0,0 +1,380 @@
+import { useEffect, useState } from "react";
+import type { Txn } from "./types";
+import type { Household } from "./household";
+import { type Budgets, EMPTY_BUDGETS } from "./budget";
+import { STORES } from "./db";
+import { type LocalChange, getRecords, getSetting, onLocalChange, putSetting, setRecords } from "./repository";
+import {
+  type RemoteConfig,
+  fetchChanges,
+  fetchSnapshot,
+  loadRemoteConfig,
+  postChanges,
+  putBudgets,
+  putCategories,
+  putHousehold,
+} from "./remote";
+import { MAX_BATCH, type HouseholdSnapshot, type PushChange, type SyncChange } from "./syncProtocol";
+
+// ====== 複数端末の同期 ======
+// 同期サーバ（./remote.ts）が設定されているときだけ動く。
+// 明細を画面で変えると「送信待ち（outbox）」に積み、変更前の版（base）と、その版のサーバ rev を覚えておく。
+// 同期では、まずカーソルより後のサーバの変更を取り込み、次に送信待ちを baseRev 付きで送る。
+// 同じ明細を両方で変えていたら base・手元・サーバの 3 つを項目ごとに比べてマージし、
+// 同じ項目を違う値に変えていたとき（片方の削除ともう片方の編集を含む）は「競合」として利用者に選んでもらう。
+// 世帯・カテゴリ・予算は後勝ちで、変えたらそのまま送る。
+
+/** 削除と編集がぶつかったときの競合の項目名 */
+export const DELETED_FIELD = "_deleted";
+
+/** 競合・選択の単位（明細の項目か、削除と編集のぶつかり） */
+export type ConflictField = keyof Txn | typeof DELETED_FIELD;
+
+/** 項目ごとにどちらを残すか */
+export type FieldChoice = Partial<Record<ConflictField, Side>>;
+
+// 同期の対象にしない項目（サーバが振る・変更のたびに変わる）
+const META_FIELDS = new Set<keyof Txn>(["id", "rev", "modifiedAt"]);
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const fieldsOf = (...txns: Array<Txn | null>): Array<keyof Txn> =>
+  Array.from(new Set(txns.flatMap((t) => (t ? (Object.keys(t) as Array<keyof Txn>) : [])))).filter((k) => !META_FIELDS.has(k));
+
+/** 同期に関係する項目だけで比べる */
+export const sameContent = (a: Txn | null, b: Txn | null) =>
+  !a || !b ? a === b : fieldsOf(a, b).every((k) => same(a[k], b[k]));
+
+export type Side = "local" | "remote";
+
+/**
+ * 3-way マージ。null は「ない（削除済み）」。
+ * prefer に項目ごとの選択を渡すと、その項目は競合にせず選んだ側を使う。
+ */
+export function mergeTxn(
+  base: Txn | null,
+  local: Txn | null,
+  remote: Txn | null,
+  prefer: FieldChoice = {}
+): { result: Txn | null; conflicts: ConflictField[] } {
+  if (!local || !remote) {
+    if (!local && !remote) return { result: null, conflicts: [] };
+    // 片方が削除。もう片方が base から変わっていなければ削除で良い
+    const kept = (local ?? remote)!;
+    if (base && sameContent(kept, base)) return { result: null, conflicts: [] };
+    const side = prefer[DELETED_FIELD];
+    if (side) return { result: side === "local" ? local : remote, conflicts: [] };
+    return { result: kept, conflicts: [DELETED_FIELD] };
+  }
+
+  const result: Record<string, unknown> = { ...remote };
+  const conflicts: ConflictField[] = [];
+  for (const k of fieldsOf(base, local, remote)) {
+    const l = local[k];
+    const r = remote[k];
+    const b = base?.[k];
+    let v: unknown;
+    if (same(l, r) || same(r, b)) v = l;        // 同じ値 / サーバ側は変えていない
+    else if (same(l, b)) v = r;                 // 手元は変えていない
+    else if (prefer[k]) v = prefer[k] === "local" ? l : r;
+    else {
+      conflicts.push(k);
+      v = r;
+    }
+    if (v === undefined) delete result[k];
+    else result[k] = v;
+  }
+  return { result: result as Txn, conflicts };
+}
+
+// ====== 同期の状態（端末ごと。設定ストアの "sync" に保存） ======
+type OutboxEntry = {
+  id: string;
+  baseRev: number;         // 変更の元にしたサーバの rev（新規なら 0）
+  base: Txn | null;        // 変更の元にした版（新規なら null）
+  modifiedAt: string;
+};
+
+export type SyncConflict = {
+  id: string;
+  base: Txn | null;
+  local: Txn | null;       // null = 手元で削除
+  remote: Txn | null;      // null = サーバで削除
+  remoteRev: number;
+  fields: ConflictField[];
+};
+
+type SyncMeta = {
+  householdId: string;
+  cursor: number;
+  outbox: Record<string, OutboxEntry>;
+  conflicts: Record<string, SyncConflict>;
+  lastSyncedAt?: string;
+};
+
+const META_KEY = "sync";
+
+// サーバと共有する設定のキー（それ以外の設定・レシートはこの端末だけに保存する）
+const REMOTE_SETTINGS = ["household", "categories", "budget", "categoryBudgets"];
+
+export type RemoteState = {
+  status: "off" | "syncing" | "online" | "offline";
+  error?: string;
+  lastSyncedAt?: string;
+  pending: number;         // 送信待ちの明細
+  conflicts: SyncConflict[];
+};
+
+let remote: RemoteConfig | null = null;
+let meta: SyncMeta | null = null;
+let state: RemoteState = { status: "off", pending: 0, conflicts: [] };
+const listeners = new Set<(s: RemoteState) => void>();
+
+function setState(patch: Partial<RemoteState>) {
+  state = {
+    ...state,
+    ...patch,
+    pending: meta ? Object.keys(meta.outbox).length : 0,
+    conflicts: meta ? Object.values(meta.conflicts) : [],
+  };
+  listeners.forEach((fn) => fn(state));
+}
+
+export const getRemoteState = () => state;
+
+/** 接続・同期の状態（競合の一覧を含む） */
+export function useRemoteState(): RemoteState {
+  const [s, set] = useState(state);
+  useEffect(() => {
+    listeners.add(set);
+    return () => {
+      listeners.delete(set);
+    };
+  }, []);
+  return s;
+}
+
+const now = () => new Date().toISOString();
+const withoutMeta = ({ rev: _rev, modifiedAt: _modifiedAt, ...t }: Txn): Txn => t;
+
+function saveMeta() {
+  if (meta) putSetting(META_KEY, meta);
+}
+
+// ====== 手元の明細の読み書き ======
+const localTxn = (id: string) => getRecords<Txn>(STORES.txns).find((t) => t.id === id) ?? null;
+
+function writeLocal(id: string, txn: Txn | null) {
+  setRecords<Txn>(STORES.txns, (prev) => {
+    const i = prev.findIndex((t) => t.id === id);
+    if (!txn) return i < 0 ? prev : prev.filter((t) => t.id !== id);
+    if (i < 0) return [txn, ...prev];
+    const next = prev.slice();
+    next[i] = txn;
+    return next;
+  });
+}
+
+// ====== 画面での変更 → 送信待ち ======
+function track(id: string, before: Txn | undefined) {
+  if (!meta) return;
+  const entry = meta.outbox[id];
+  if (entry) {
+    // 一度もサーバに届いていない明細を消したら、送る必要もない
+    if (!entry.base && !localTxn(id)) delete meta.outbox[id];
+    else entry.modifiedAt = now();
+    return;
+  }
+  meta.outbox[id] = { id, baseRev: before?.rev ?? 0, base: before ? withoutMeta(before) : null, modifiedAt: now() };
+}
+
+function handleLocalChange(c: LocalChange) {
+  if (!remote) return;
+  if (c.type === "setting") {
+    if (REMOTE_SETTINGS.includes(c.key)) pushSetting(remote, c.key);
+    return;
+  }
+  if (c.name !== STORES.txns || !meta) return;
+  for (const t of c.diff.put) track(t.id, c.before.get(t.id));
+  for (const id of c.diff.remove) track(id, c.before.get(id));
+  saveMeta();
+  setState({});
+  scheduleSync(1500);
+}
+
+function pushSetting(cfg: RemoteConfig, key: string) {
+  const work =
+    key === "household" ? putHousehold(cfg, getSetting<Household | null>("household", null)!)
+    : key === "categories" ? putCategories(cfg, getSetting<string[]>("categories", []))
+    : putBudgets(cfg, { ...getSetting<Budgets>("categoryBudgets", EMPTY_BUDGETS), monthly: getSetting<number>("budget", 0) });
+  work.catch((e) => {
+    console.error(`sync: ${key} の送信に失敗しました`, e);
+    setState({ status: "offline", error: e?.message ?? String(e) });
+  });
+}
+
+function applySettings(snap: HouseholdSnapshot) {
+  putSetting("household", snap.household);
+  if (snap.categories) putSetting("categories", snap.categories);
+  if (snap.budgets) {
+    const { monthly, ...budgets } = snap.budgets;
+    putSetting("budget", monthly);
+    putSetting("categoryBudgets", budgets);
+  }
+}
+
+// ====== サーバの変更 → 手元 ======
+function applyRemote(c: SyncChange) {
+  if (!meta) return;
+  const entry = meta.outbox[c.id];
+  if (!entry) {
+    writeLocal(c.id, c.txn);
+    return;
+  }
+  if (c.rev <= entry.baseRev) return; // 自分が送った変更が戻ってきた
+
+  const existing = meta.conflicts[c.id];
+  if (existing) {
+    // 解決を待っている間にサーバ側がまた変わった
+    meta.conflicts[c.id] = { ...existing, remote: c.txn, remoteRev: c.rev };
+    entry.baseRev = c.rev;
+    return;
+  }
+
+  const local = localTxn(c.id);
+  const { result, conflicts } = mergeTxn(entry.base, local ? withoutMeta(local) : null, c.txn ? withoutMeta(c.txn) : null);
+  if (conflicts.length) {
+    meta.conflicts[c.id] = { id: c.id, base: entry.base, local, remote: c.txn, remoteRev: c.rev, fields: conflicts };
+    return;
+  }
+  writeLocal(c.id, result && { ...result, rev: c.rev, modifiedAt: local?.modifiedAt ?? c.modifiedAt });
+  if (sameContent(result, c.txn)) delete meta.outbox[c.id];
+  else Object.assign(entry, { baseRev: c.rev, base: c.txn && withoutMeta(c.txn), modifiedAt: now() });
+}
+
+/** 競合を解決する。fields ごとにどちらを使うかを選ぶ */
+export function resolveConflict(id: string, prefer: FieldChoice) {
+  if (!meta?.conflicts[id]) return;
+  const cf = meta.conflicts[id];
+  const { result } = mergeTxn(cf.base, cf.local && withoutMeta(cf.local), cf.remote && withoutMeta(cf.remote), prefer);
+  delete meta.conflicts[id];
+  writeLocal(id, result && { ...result, rev: cf.remoteRev, modifiedAt: now() });
+  if (sameContent(result, cf.remote)) delete meta.outbox[id];
+  else meta.outbox[id] = { id, baseRev: cf.remoteRev, base: cf.remote && withoutMeta(cf.remote), modifiedAt: now() };
+  saveMeta();
+  setState({});
+  scheduleSync(0);
+}
+
+// ====== 同期の実行 ======
+let running: Promise<void> | null = null;
+let again = false;
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+export function scheduleSync(delay: number) {
+  if (!remote) return;
+  clearTimeout(timer);
+  timer = setTimeout(() => void syncNow(), delay);
+}
+
+export function syncNow(): Promise<void> {
+  if (running) {
+    again = true;
+    return running;
+  }
+  running = runSync().finally(() => {
+    running = null;
+    if (again) {
+      again = false;
+      scheduleSync(0);
+    }
+  });
+  return running;
+}
+
+async function runSync() {
+  const cfg = remote;
+  if (!cfg) return;
+  setState({ status: "syncing" });
+  try {
+    // 初めてつなぐ世帯なら、手元をサーバの内容で置き換える
+    if (!meta || meta.householdId !== cfg.householdId) {
+      const snap = await fetchSnapshot(cfg);
+      setRecords<Txn>(STORES.txns, () => snap.txns);
+      applySettings(snap);
+      meta = { householdId: cfg.householdId, cursor: snap.cursor, outbox: {}, conflicts: {} };
+    }
+
+    // 取り込み
+    for (;;) {
+      const res = await fetchChanges(cfg, meta.cursor);
+      for (const c of res.changes) applyRemote(c);
+      meta.cursor = res.cursor;
+      if (!res.more) break;
+    }
+
+    // 送信（競合が返ったらマージして、もう一度だけ送り直す）
+    for (let round = 0; round < 2; round++) {
+      const entries = Object.values(meta.outbox).filter((e) => !meta!.conflicts[e.id]);
+      if (!entries.length) break;
+      for (let i = 0; i < entries.length; i += MAX_BATCH) {
+        const changes: PushChange[] = entries.slice(i, i + MAX_BATCH).map((e) => {
+          const t = localTxn(e.id);
+          return { id: e.id, baseRev: e.baseRev, deleted: !t, modifiedAt: e.modifiedAt, txn: t && { ...withoutMeta(t), modifiedAt: e.modifiedAt } };
+        });
+        const res = await postChanges(cfg, changes);
+        for (const r of res.results) {
+          const sent = changes.find((c) => c.id === r.id)!;
+          const entry = meta.outbox[r.id];
+          if (r.status === "conflict") {
+            applyRemote(r.current);
+            continue;
+          }
+          if (entry && entry.modifiedAt === sent.modifiedAt) delete meta.outbox[r.id];
+          else if (entry) Object.assign(entry, { baseRev: r.rev, base: sent.txn && withoutMeta(sent.txn) });
+          const t = localTxn(r.id);
+          if (t) writeLocal(r.id, { ...t, rev: r.rev, modifiedAt: sent.modifiedAt });
+        }
+      }
+    }
+
+    meta.lastSyncedAt = now();
+    setState({ status: "online", error: undefined, lastSyncedAt: meta.lastSyncedAt });
+  } catch (e: any) {
+    console.warn("sync: 同期できませんでした", e);
+    setState({ status: "offline", error: e?.message ?? String(e) });
+  } finally {
+    saveMeta();
+  }
+}
+
+/** 接続を解除したとき。送信待ち・カーソルを捨てる（次につないだときはサーバの内容から始め直す） */
+export function resetSync() {
+  meta = null;
+  putSetting(META_KEY, null);
+}
+
+/** 起動時に一度。同期サーバが設定されていれば最初の同期を済ませ、以後は定期的・オンライン復帰時に同期する */
+export async function initSync() {
+  remote = loadRemoteConfig();
+  if (!remote) return;
+  meta = getSetting<SyncMeta | null>(META_KEY, null);
+  setState({});
+  onLocalChange(handleLocalChange);
+
+  if (meta?.householdId !== remote.householdId) {
+    // 初めての世帯はサーバの内容で置き換えてから描画する
+    await syncNow();
+  } else {
+    // 2 回目以降は手元のデータですぐ描画し、裏で同期する。
+    // 世帯・カテゴリ・予算は後勝ちなので、明細の前にサーバの内容を読み直す
+    const cfg = remote;
+    void fetchSnapshot(cfg, { txns: false })
+      .then(applySettings, (e) => console.warn("sync: 設定を読み込めませんでした", e))
+      .then(syncNow);
+  }
+
+  setInterval(() => void syncNow(), 60_000);
+  window.addEventListener("online", () => scheduleSync(0));
+  window.addEventListener("focus", () => scheduleSync(0));
+}
@@ -0,0 +1,137 @@
+import type { Txn } from "./types";
+import type { Household } from "./household";
+import type { Budgets } from "./budget";
+
+// ====== 同期サーバの REST API（v1）の型と検証 ======
+// server/ からも相対パスで import するので、"@/" エイリアスやブラウザ専用の API を使わない。
+//
+//   POST   /api/v1/households                      世帯を作る（認証不要）→ { householdId, token }
+//   GET    /api/v1/households/:hid?txns=0          世帯・明細・カテゴリ・予算をまとめて取得（txns=0 なら明細を省く）
+//   PUT    /api/v1/households/:hid                 世帯（メンバー・既定の支払者）を更新
+//   GET    /api/v1/households/:hid/txns?from&to    明細（日付の範囲は任意）
+//   PUT    /api/v1/households/:hid/txns/:id        明細を 1 件追加・更新
+//   DELETE /api/v1/households/:hid/txns/:id        明細を 1 件削除
+//   POST   /api/v1/households/:hid/txns/batch      { put, remove } をまとめて反映
+//   GET    /api/v1/households/:hid/changes?since   since より後の明細の変更（削除を含む）→ ChangesResponse
+//   POST   /api/v1/households/:hid/changes         手元の変更を送る → PushResponse
+//   GET    /api/v1/households/:hid/categories      カテゴリ一覧（未設定なら null）
+//   PUT    /api/v1/households/:hid/categories
+//   GET    /api/v1/households/:hid/budgets         予算（未設定なら null）
+//   PUT    /api/v1/households/:hid/budgets
+//
+// :hid 以下は Authorization: Bearer <token>。token は世帯を作ったときに一度だけ返る。
+//
+// 同期: 明細を書くたびにサーバが世帯ごとの通し番号 rev を振る。削除は deleted の記録（tombstone）として残る。
+// 端末は最後に受け取った rev（カーソル）より後の変更を取り、手元の変更は「どの rev を元に変えたか（baseRev）」付きで送る。
+// サーバの rev が baseRev と違えば conflict を返すので、端末側で項目ごとにマージしてから送り直す。
+// 削除済みの明細を baseRev 0 で送ったときは復元として受け付ける。
+
+export const API_PREFIX = "/api/v1";
+
+/** 全体の月予算（カテゴリ別予算がないとき）とカテゴリ別予算 */
+export type HouseholdBudgets = Budgets & { monthly: number };
+
+export type TxnBatch = { put: Txn[]; remove: string[] };
+
+export type HouseholdSnapshot = {
+  household: Household;
+  txns: Txn[];
+  cursor: number;          // この時点の世帯の rev
+  categories: string[] | null;
+  budgets: HouseholdBudgets | null;
+};
+
+export type CreateHouseholdRequest = {
+  household: Household;
+  categories?: string[];
+  budgets?: HouseholdBudgets;
+};
+
+export type CreateHouseholdResponse = { householdId: string; token: string };
+
+/** サーバ上の明細 1 件の状態。deleted なら txn は null */
+export type SyncChange = {
+  id: string;
+  rev: number;
+  deleted: boolean;
+  modifiedAt: string;
+  txn: Txn | null;
+};
+
+export type ChangesResponse = { changes: SyncChange[]; cursor: number; more: boolean };
+
+/** 端末からの変更。baseRev は変更の元にしたサーバの rev（新規なら 0） */
+export type PushChange = {
+  id: string;
+  baseRev: number;
+  deleted: boolean;
+  modifiedAt: string;
+  txn: Txn | null;
+};
+
+export type PushResult =
+  | { id: string; status: "applied"; rev: number }
+  | { id: string; status: "conflict"; current: SyncChange };
+
+export type PushResponse = { results: PushResult[]; cursor: number };
+
+export type ApiErrorBody = { error: string; details?: string[] };
+
+/** 1 回のバッチで受け付ける件数 */
+export const MAX_BATCH = 1000;
+
+// ====== 検証 ======
+const isObject = (v: unknown): v is Record<string, any> => typeof v === "object" && v !== null && !Array.isArray(v);
+const KINDS = ["expense", "income", "transfer"];
+
+export function validateTxn(v: unknown): string[] {
+  if (!isObject(v)) return ["明細がオブジェクトではありません"];
+  const errors: string[] = [];
+  if (typeof v.id !== "string" || !v.id) errors.push("id がありません");
+  if (typeof v.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(v.date)) errors.push(`date が YYYY-MM-DD ではありません（${v.id}）`);
+  if (typeof v.amount !== "number" || !Number.isFinite(v.amount)) errors.push(`amount が数値ではありません（${v.id}）`);
+  if (!KINDS.includes(v.kind)) errors.push(`kind が不正です（${v.id}）`);
+  for (const key of ["payer", "category", "memo"]) {
+    if (typeof v[key] !== "string") errors.push(`${key} が文字列ではありません（${v.id}）`);
+  }
+  if (v.tags !== undefined && !(Array.isArray(v.tags) && v.tags.every((t: unknown) => typeof t === "string"))) {
+    errors.push(`tags が文字列の配列ではありません（${v.id}）`);
+  }
+  return errors;
+}
+
+export function validatePushChange(v: unknown): string[] {
+  if (!isObject(v)) return ["変更がオブジェクトではありません"];
+  const errors: string[] = [];
+  if (typeof v.id !== "string" || !v.id) errors.push("id がありません");
+  if (typeof v.baseRev !== "number" || v.baseRev < 0) errors.push(`baseRev が不正です（${v.id}）`);
+  if (typeof v.modifiedAt !== "string") errors.push(`modifiedAt がありません（${v.id}）`);
+  if (v.deleted !== true) {
+    errors.push(...validateTxn(v.txn));
+    if (isObject(v.txn) && v.txn.id !== v.id) errors.push(`id が一致しません（${v.id}）`);
+  }
+  return errors;
+}
+
+export function validateHousehold(v: unknown): string[] {
+  if (!isObject(v)) return ["世帯がオブジェクトではありません"];
+  const errors: string[] = [];
+  if (!Array.isArray(v.members) || !v.members.every((m: any) => isObject(m) && typeof m.id === "string" && typeof m.name === "string")) {
+    errors.push("members が不正です");
+  }
+  if (typeof v.defaultPayer !== "string") errors.push("defaultPayer が文字列ではありません");
+  return errors;
+}
+
+export function validateCategories(v: unknown): string[] {
+  return Array.isArray(v) && v.every((c) => typeof c === "string" && c.trim()) ? [] : ["カテゴリは文字列の配列にしてください"];
+}
+
+export function validateBudgets(v: unknown): string[] {
+  if (!isObject(v)) return ["予算がオブジェクトではありません"];
+  const errors: string[] = [];
+  if (typeof v.monthly !== "number" || !Number.isFinite(v.monthly)) errors.push("monthly が数値ではありません");
+  if (!isObject(v.categories)) errors.push("categories がオブジェクトではありません");
+  if (!isObject(v.months)) errors.push("months がオブジェクトではありません");
+  return errors;
+}
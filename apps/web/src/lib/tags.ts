@@ -0,0 +1,81 @@
+import type { Txn } from "./types";
+
+// ====== タグ ======
+// カテゴリは 1 明細に 1 つだが、旅行・引っ越し・結婚式のようにカテゴリをまたぐ出費のまとまりはタグで追う。
+// タグは自由入力。前後の空白と先頭の # は取り、同じタグは 1 つにまとめる。
+
+export const normalizeTag = (s: string) => s.trim().replace(/^#+/, "").trim();
+
+/** 「旅行, #帰省 引っ越し」のような入力をタグの配列にする（区切りは , 、 空白） */
+export function parseTags(s: string): string[] {
+  return uniqueTags(s.split(/[,、\s]+/));
+}
+
+export function uniqueTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+}
+
+/** 使われているタグ（よく使う順）。入力補完の候補に使う */
+export function collectTags(txns: Txn[]): string[] {
+  const count = new Map<string, number>();
+  for (const t of txns) for (const tag of t.tags ?? []) count.set(tag, (count.get(tag) ?? 0) + 1);
+  return Array.from(count.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], "ja"))
+    .map(([tag]) => tag);
+}
+
+/** 入力中の文字で候補を絞る（前方一致を先に、次に部分一致） */
+export function suggestTags(all: string[], input: string, exclude: string[] = [], limit = 8): string[] {
+  const q = normalizeTag(input).toLowerCase();
+  const pool = all.filter((t) => !exclude.includes(t));
+  if (!q) return pool.slice(0, limit);
+  const starts = pool.filter((t) => t.toLowerCase().startsWith(q));
+  const contains = pool.filter((t) => !t.toLowerCase().startsWith(q) && t.toLowerCase().includes(q));
+  return [...starts, ...contains].slice(0, limit);
+}
+
+// ====== タグ別の集計 ======
+export type TagReportRow = {
+  tag: string;
+  expense: number;
+  income: number;
+  count: number;
+  from: string;            // そのタグの最初と最後の日付
+  to: string;
+  byCategory: Array<{ category: string; amount: number }>; // 支出のみ。大きい順
+};
+
+/**
+ * 期間内（from・to を含む。空なら制限なし）の明細をタグごとに集計する。支出の大きい順。
+ * 1 つの明細に複数のタグがあれば、それぞれのタグに数える（タグ間の合計は明細の合計と一致しない）。
+ */
+export function tagReport(txns: Txn[], from: string, to: string): TagReportRow[] {
+  const rows = new Map<string, TagReportRow & { cats: Map<string, number> }>();
+  for (const t of txns) {
+    if (!t.tags?.length || (from && t.date < from) || (to && t.date > to)) continue;
+    if (t.kind !== "expense" && t.kind !== "income") continue;
+    for (const tag of t.tags) {
+      let r = rows.get(tag);
+      if (!r) {
+        r = { tag, expense: 0, income: 0, count: 0, from: t.date, to: t.date, byCategory: [], cats: new Map() };
+        rows.set(tag, r);
+      }
+      r.count++;
+      if (t.date < r.from) r.from = t.date;
+      if (t.date > r.to) r.to = t.date;
+      if (t.kind === "income") r.income += t.amount;
+      else {
+        r.expense += t.amount;
+        r.cats.set(t.category, (r.cats.get(t.category) ?? 0) + t.amount);
+      }
+    }
+  }
+  return Array.from(rows.values())
+    .map(({ cats, ...r }) => ({
+      ...r,
+      byCategory: Array.from(cats.entries())
+        .map(([category, amount]) => ({ category, amount }))
+        .sort((a, b) => b.amount - a.amount),
+    }))
+    .sort((a, b) => b.expense - a.expense || a.tag.localeCompare(b.tag, "ja"));
+}
@@ -0,0 +1,41 @@
+import type { Txn } from "./types";
+
+// ====== ゴミ箱 ======
+// 削除した明細は TRASH_DAYS 日のあいだゴミ箱（IndexedDB の trash ストア）に残し、そこから復元できる。
+// ゴミ箱はこの端末だけのもので、同期サーバには送らない。
+
+export const TRASH_DAYS = 30;
+
+export type TrashItem = {
+  id: string;              // 明細の id
+  txn: Txn;
+  deletedAt: string;       // ISO 8601
+  reason: string;          // 削除した操作（「明細の削除」「すべて削除」など）
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 同じ明細がすでに入っていれば新しい削除で置き換える */
+export function addToTrash(trash: TrashItem[], txns: Txn[], reason: string, now = new Date()): TrashItem[] {
+  if (!txns.length) return trash;
+  const ids = new Set(txns.map((t) => t.id));
+  const deletedAt = now.toISOString();
+  return [...txns.map((txn) => ({ id: txn.id, txn, deletedAt, reason })), ...trash.filter((x) => !ids.has(x.id))];
+}
+
+export function removeFromTrash(trash: TrashItem[], ids: Iterable<string>): TrashItem[] {
+  const drop = new Set(ids);
+  return drop.size && trash.some((x) => drop.has(x.id)) ? trash.filter((x) => !drop.has(x.id)) : trash;
+}
+
+/** 完全に消えるまでの残り日数（端数は切り上げ） */
+export function daysLeft(item: TrashItem, now = new Date()): number {
+  return Math.max(0, Math.ceil((Date.parse(item.deletedAt) + TRASH_DAYS * DAY_MS - now.getTime()) / DAY_MS));
+}
+
+/** 期限切れを除く（変わらなければ同じ配列を返す） */
+export function purgeExpired(trash: TrashItem[], now = new Date()): TrashItem[] {
+  const limit = now.getTime() - TRASH_DAYS * DAY_MS;
+  const kept = trash.filter((x) => Date.parse(x.deletedAt) > limit);
+  return kept.length === trash.length ? trash : kept;
+}
@@ -0,0 +1,20 @@
+// ====== 型 ======
+export type Kind = "expense" | "income" | "transfer"; // transfer = メンバー間の精算送金
+export type Txn = {
+  id: string;
+  date: string;            // YYYY-MM-DD
+  payer: string;           // Member.id（共同は SHARED_PAYER_ID）。transfer では送金した側
+  category: string;
+  memo: string;
+  amount: number;          // JPY
+  kind: Kind;              // 収支
+  personal?: boolean;      // 個人の支出（割り勘精算の対象外）
+  payee?: string;          // transfer の受け取り側 Member.id
+  settlementId?: string;   // 精算記録への参照
+  receiptId?: string;      // 取り込み元のレシート（Receipt.id）
+  recurringId?: string;    // 生成元の定期ルール（RecurringRule.id）
+  occurrence?: string;     // 定期ルール上の予定日（YYYY-MM-DD。date を変えても残る）
+  tags?: string[];         // 自由なタグ（旅行・帰省 など）
+  rev?: number;            // 同期サーバでのリビジョン（最後に同期したときの値。未同期なら なし）
+  modifiedAt?: string;     // 最後に変更した日時（ISO 8601）
+};
@@ -0,0 +1,24 @@
+import type { Txn } from "./types";
+
+export const prettyJPY = (n: number) =>
+  n.toLocaleString("ja-JP", { style: "currency", currency: "JPY", maximumFractionDigits: 0 });
+
+export const randomId = () => Math.random().toString(36).slice(2, 10);
+
+/** 端末のタイムゾーンでの日付（YYYY-MM-DD）。toISOString は UTC なので、日本では 0〜9 時に前日になる */
+export const localDate = (d = new Date()) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+// 重複キー（半角空白正規化）
+export const dupKey = (t: Pick<Txn, "date" | "memo" | "amount" | "kind">) =>
+  `${t.date}|${t.memo.replace(/\s+/g, " ").trim()}|${t.amount}|${t.kind}`;
+
+/** Blob をファイルとしてダウンロードさせる */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
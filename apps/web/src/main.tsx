@@ -2,9 +2,14 @@ import React from 'react'
 import { createRoot } from 'react-dom/client'
 import './styles.css'
 import App from './App'
+import { initStorage } from './lib/repository'
+import { initSync } from './lib/sync'
 
-createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-)
+// 保存済みのデータを読み込み、同期サーバがあれば最初の同期を済ませてから描画する（state を同期的に初期化するため）
+initStorage().then(initSync).finally(() => {
+  createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  )
+})
@@ -0,0 +1,45 @@
+// apps/web/tesseractAssets.ts
+// ====== tesseract.js の worker・wasm・日本語データを自前で配る ======
+// tesseract.js は既定で worker・core（wasm）・traineddata を cdn.jsdelivr.net から読むので、
+// 「ローカル（オフライン）」のつもりでも初回はネットワークが要る。node_modules から同じオリジンに置き、
+// src/lib/ocr.ts の createWorker にはこの URL を渡す。
+//
+//   dev   : /tesseract/... をミドルウェアで node_modules から返す
+//   build : dist/tesseract/... にコピーする
+import fs from "node:fs";
+import path from "node:path";
+import type { Plugin } from "vite";
+
+/** 配る URL（/tesseract/ 以下）→ node_modules 内のファイル。OEM 1（LSTM のみ）で使うものだけ */
+export const TESSERACT_ASSETS: Record<string, string> = {
+  "worker.min.js": "tesseract.js/dist/worker.min.js",
+  "core/tesseract-core-lstm.wasm.js": "tesseract.js-core/tesseract-core-lstm.wasm.js",
+  "core/tesseract-core-simd-lstm.wasm.js": "tesseract.js-core/tesseract-core-simd-lstm.wasm.js",
+  // gzip のまま渡す（tesseract.js が自分で展開するので Content-Encoding は付けない）
+  "lang/jpn.traineddata.gz": "@tesseract.js-data/jpn/4.0.0_best_int/jpn.traineddata.gz",
+};
+
+const contentType = (name: string) => (name.endsWith(".js") ? "text/javascript" : "application/octet-stream");
+
+export function tesseractAssets(nodeModules: string): Plugin {
+  const source = (name: string) => path.join(nodeModules, TESSERACT_ASSETS[name]);
+  return {
+    name: "tesseract-assets",
+    configureServer(server) {
+      const prefix = `${server.config.base.replace(/\/$/, "")}/tesseract/`;
+      server.middlewares.use((req, res, next) => {
+        const url = (req.url ?? "").split("?")[0];
+        if (!url.startsWith(prefix)) return next();
+        const name = url.slice(prefix.length);
+        if (!TESSERACT_ASSETS[name]) return next();
+        res.setHeader("Content-Type", contentType(name));
+        fs.createReadStream(source(name)).on("error", next).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const name of Object.keys(TESSERACT_ASSETS)) {
+        this.emitFile({ type: "asset", fileName: `tesseract/${name}`, source: fs.readFileSync(source(name)) });
+      }
+    },
+  };
+}
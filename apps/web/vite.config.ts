@@ -1,13 +1,23 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "node:path";
+import { vercelDevApi } from "./api/_lib/devServer";
+import { tesseractAssets } from "./tesseractAssets";
 
-export default defineConfig({
-  plugins: [react()],
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "src"),
+export default defineConfig(({ mode }) => {
+  // api/ の handler は process.env を読むので、.env の値（VITE_ 以外も）を渡す。既に設定済みのものは上書きしない
+  const env = loadEnv(mode, __dirname, "");
+  for (const [key, value] of Object.entries(env)) {
+    if (process.env[key] === undefined) process.env[key] = value;
+  }
+
+  return {
+    plugins: [react(), vercelDevApi(path.resolve(__dirname, "api")), tesseractAssets(path.resolve(__dirname, "node_modules"))],
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "src"),
+      },
     },
-  },
-  server: { port: 5173 }
+    server: { port: 5173 }
+  };
 });